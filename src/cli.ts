@@ -0,0 +1,254 @@
+#!/usr/bin/env bun
+/**
+ * Command-Line Exporter
+ * Converts a Quest paste, saved schedule file or .ics calendar without the
+ * browser, e.g. `bun run export schedule.txt -o schedule.ics`.
+ * Diagnostics, time conflicts, export warnings and notices go to stderr.
+ * Exits with 1 if the input can't be parsed or a diagnostic is an error (the
+ * file is still written), and 2 on invalid arguments.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { parseAnySchedules } from "@/lib/autoParse";
+import { findScheduleConflicts, formatConflict } from "@/lib/conflicts";
+import { generateScheduleCsv } from "@/lib/csvExport";
+import {
+    DEFAULT_EXPORT_OPTIONS,
+    generateScheduleIcs,
+    type IcsExportOptions,
+} from "@/lib/icsExport";
+import { ParserError } from "@/lib/parser";
+import {
+    type CourseStatus,
+    CourseStatusSchema,
+    DroppedCourseExportSchema,
+    type ExportFormat,
+    ExportFormatSchema,
+    type ParseDiagnostic,
+    type ParsedSchedule,
+} from "@/lib/schema";
+import { parseSkipDates } from "@/lib/termCalendar";
+
+const USAGE = `Usage: bun run export [options] [file]
+
+Reads the schedule from the file, or from standard input if none is given.
+
+Options:
+  -o, --output <file>         Write to a file instead of standard output
+  -f, --format <format>       ics, csv or google-csv (default: ics)
+  -t, --term <term>           Term to export when the input has several, e.g. "Winter 2026"
+      --summary <template>    Event title (default: "${DEFAULT_EXPORT_OPTIONS.summaryTemplate}")
+      --description <template>
+                              Event description (default: "${DEFAULT_EXPORT_OPTIONS.descriptionTemplate}")
+      --exam-summary <template>
+                              Final exam title (default: "${DEFAULT_EXPORT_OPTIONS.examSummaryTemplate}")
+      --skip-dates <dates>    Extra days without classes, e.g. "2026-03-02,2026-03-03"
+      --status <statuses>     Only export courses with these statuses, e.g. "Enrolled,Waitlisted"
+      --dropped <mode>        skip or cancelled, for dropped courses (default: skip)
+  -h, --help                  Show this message`;
+
+/**
+ * Invalid command-line arguments
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+/**
+ * One diagnostic per line, pointing at the input line if known
+ */
+function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+    const where = diagnostic.line ? `line ${diagnostic.line}: ` : "";
+    return `${diagnostic.severity}: ${where}${diagnostic.message}`;
+}
+
+/**
+ * Statuses from a comma-separated list, in any case
+ * @throws UsageError if one is not a Quest status
+ */
+function parseStatuses(list: string): CourseStatus[] {
+    return list.split(",").map((entry) => {
+        const status = CourseStatusSchema.options.find(
+            (s) => s.toLowerCase() === entry.trim().toLowerCase(),
+        );
+        if (!status) {
+            throw new UsageError(
+                `Unknown status "${entry.trim()}", expected ${CourseStatusSchema.options.join(", ")}`,
+            );
+        }
+        return status;
+    });
+}
+
+/**
+ * The schedule of the requested term, or the only one if no term is given
+ * @throws UsageError if the term is missing or ambiguous
+ */
+function selectSchedule(
+    schedules: ParsedSchedule[],
+    term: string | undefined,
+): ParsedSchedule {
+    const names = schedules.map((s) => `${s.term.season} ${s.term.year}`);
+    if (term === undefined) {
+        if (schedules.length === 1) return schedules[0];
+        throw new UsageError(
+            `The input has ${schedules.length} terms (${names.join(", ")}), pick one with --term`,
+        );
+    }
+
+    const index = names.findIndex(
+        (name) => name.toLowerCase() === term.trim().toLowerCase(),
+    );
+    if (index === -1) {
+        throw new UsageError(
+            `The input has no ${term} term, it has ${names.join(", ")}`,
+        );
+    }
+    return schedules[index];
+}
+
+/**
+ * The exported file in the requested format, with its warnings and notices
+ */
+function exportSchedule(
+    schedule: ParsedSchedule,
+    options: IcsExportOptions,
+    format: ExportFormat,
+): { content: string; warnings: string[]; notices: string[] } {
+    if (format === "ics") {
+        const { icsContent, ...messages } = generateScheduleIcs(
+            schedule,
+            options,
+        );
+        return { content: icsContent, ...messages };
+    }
+    const { csvContent, ...messages } = generateScheduleCsv(
+        schedule,
+        options,
+        format,
+    );
+    return { content: csvContent, ...messages };
+}
+
+function run(argv: string[]): number {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            output: { type: "string", short: "o" },
+            format: { type: "string", short: "f", default: "ics" },
+            term: { type: "string", short: "t" },
+            summary: { type: "string" },
+            description: { type: "string" },
+            "exam-summary": { type: "string" },
+            "skip-dates": { type: "string" },
+            status: { type: "string" },
+            dropped: { type: "string", default: "skip" },
+            help: { type: "boolean", short: "h" },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length > 1) {
+        throw new UsageError("Only one input file can be converted at a time");
+    }
+
+    const format = ExportFormatSchema.safeParse(values.format);
+    if (!format.success) {
+        throw new UsageError(
+            `Unknown format "${values.format}", expected ${ExportFormatSchema.options.join(", ")}`,
+        );
+    }
+    const dropped = DroppedCourseExportSchema.safeParse(values.dropped);
+    if (!dropped.success) {
+        throw new UsageError(
+            `Unknown --dropped mode "${values.dropped}", expected skip or cancelled`,
+        );
+    }
+    const skipDates = parseSkipDates(values["skip-dates"] ?? "");
+    if (skipDates.invalid.length > 0) {
+        throw new UsageError(
+            `Not a date: ${skipDates.invalid.join(", ")}, use YYYY-MM-DD`,
+        );
+    }
+    const statuses = values.status ? parseStatuses(values.status) : null;
+
+    const input = readFileSync(positionals[0] ?? 0, "utf8");
+    const results = parseAnySchedules(input);
+    const diagnostics = results.flatMap((r) => r.diagnostics);
+    for (const diagnostic of diagnostics) {
+        console.error(formatDiagnostic(diagnostic));
+    }
+
+    const selected = selectSchedule(
+        results.map((r) => r.schedule),
+        values.term,
+    );
+    const schedule: ParsedSchedule = statuses
+        ? {
+              ...selected,
+              courses: selected.courses.map((course) =>
+                  statuses.includes(course.status)
+                      ? course
+                      : { ...course, excluded: true },
+              ),
+          }
+        : selected;
+
+    const options: IcsExportOptions = {
+        summaryTemplate:
+            values.summary ?? DEFAULT_EXPORT_OPTIONS.summaryTemplate,
+        descriptionTemplate:
+            values.description ?? DEFAULT_EXPORT_OPTIONS.descriptionTemplate,
+        examSummaryTemplate:
+            values["exam-summary"] ??
+            DEFAULT_EXPORT_OPTIONS.examSummaryTemplate,
+        skipDates: skipDates.dates,
+        droppedCourses: dropped.data,
+    };
+    const { content, warnings, notices } = exportSchedule(
+        schedule,
+        options,
+        format.data,
+    );
+    for (const conflict of findScheduleConflicts(schedule)) {
+        console.error(`info: ${formatConflict(schedule, conflict)}`);
+    }
+    for (const warning of warnings) console.error(`warning: ${warning}`);
+    for (const notice of notices) console.error(`info: ${notice}`);
+
+    if (values.output) {
+        writeFileSync(values.output, content);
+    } else {
+        process.stdout.write(content);
+    }
+    return diagnostics.some((d) => d.severity === "error") ? 1 : 0;
+}
+
+try {
+    process.exitCode = run(process.argv.slice(2));
+} catch (err) {
+    if (err instanceof ParserError) {
+        for (const diagnostic of err.diagnostics) {
+            console.error(formatDiagnostic(diagnostic));
+        }
+        process.exitCode = 1;
+    } else if (
+        err instanceof UsageError ||
+        (err instanceof TypeError && "code" in err)
+    ) {
+        // parseArgs throws TypeErrors with a code for unknown or malformed flags
+        console.error(`${err.message}\nRun with --help to see the options.`);
+        process.exitCode = 2;
+    } else {
+        console.error(err instanceof Error ? err.message : err);
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,181 @@
+import type React from "react";
+import {
+    type AlarmMinutes,
+    type AlarmSettings,
+    ComponentTypeSchema,
+} from "@/lib/schema";
+
+interface AlarmSettingsEditorProps {
+    alarms: AlarmSettings;
+    courseCodes: string[];
+    onChange: (alarms: AlarmSettings) => void;
+}
+
+const ALARM_PRESETS: { label: string; minutes: number }[] = [
+    { label: "At start", minutes: 0 },
+    { label: "5 minutes before", minutes: 5 },
+    { label: "10 minutes before", minutes: 10 },
+    { label: "15 minutes before", minutes: 15 },
+    { label: "30 minutes before", minutes: 30 },
+    { label: "1 hour before", minutes: 60 },
+    { label: "2 hours before", minutes: 120 },
+    { label: "1 day before", minutes: 1440 },
+    { label: "2 days before", minutes: 2880 },
+];
+
+const COMPONENT_KEYS = [...ComponentTypeSchema.options, "OTHER"];
+
+// <select> values: "none" for no reminder, "default" to use the component setting
+const NO_ALARM = "none";
+const USE_DEFAULT = "default";
+
+interface AlarmSelectProps {
+    id: string;
+    value: AlarmMinutes | undefined;
+    allowDefault?: boolean;
+    onChange: (value: AlarmMinutes | undefined) => void;
+}
+
+const AlarmSelect: React.FC<AlarmSelectProps> = ({
+    id,
+    value,
+    allowDefault = false,
+    onChange,
+}) => {
+    const selected =
+        value === undefined ? USE_DEFAULT : value === null ? NO_ALARM : value;
+
+    return (
+        <select
+            id={id}
+            className="w-full px-2 py-1.5 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+            value={selected}
+            onChange={(e) => {
+                const v = e.target.value;
+                if (v === USE_DEFAULT) onChange(undefined);
+                else if (v === NO_ALARM) onChange(null);
+                else onChange(Number.parseInt(v, 10));
+            }}
+        >
+            {allowDefault && (
+                <option value={USE_DEFAULT}>Same as component</option>
+            )}
+            <option value={NO_ALARM}>No reminder</option>
+            {ALARM_PRESETS.map((preset) => (
+                <option key={preset.minutes} value={preset.minutes}>
+                    {preset.label}
+                </option>
+            ))}
+            {/* Keep a saved value that is not one of the presets */}
+            {typeof value === "number" &&
+                !ALARM_PRESETS.some((p) => p.minutes === value) && (
+                    <option value={value}>{value} minutes before</option>
+                )}
+        </select>
+    );
+};
+
+/**
+ * Reminder settings per component type and for final exams, with optional
+ * per-course overrides.
+ */
+export const AlarmSettingsEditor: React.FC<AlarmSettingsEditorProps> = ({
+    alarms,
+    courseCodes,
+    onChange,
+}) => {
+    const setComponentAlarm = (key: string, minutes: AlarmMinutes) => {
+        onChange({
+            ...alarms,
+            byComponent: { ...alarms.byComponent, [key]: minutes },
+        });
+    };
+
+    const setCourseAlarm = (
+        courseCode: string,
+        minutes: AlarmMinutes | undefined,
+    ) => {
+        const byCourse = { ...alarms.byCourse };
+        if (minutes === undefined) {
+            delete byCourse[courseCode];
+        } else {
+            byCourse[courseCode] = minutes;
+        }
+        onChange({ ...alarms, byCourse });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <h4 className="text-xs font-medium text-gray-500 uppercase">
+                    Reminders by Component
+                </h4>
+                <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                    {COMPONENT_KEYS.map((key) => (
+                        <div key={key} className="space-y-1">
+                            <label
+                                htmlFor={`alarm-component-${key}`}
+                                className="text-xs font-mono text-gray-600"
+                            >
+                                {key === "OTHER" ? "Other" : key}
+                            </label>
+                            <AlarmSelect
+                                id={`alarm-component-${key}`}
+                                value={alarms.byComponent[key] ?? null}
+                                onChange={(minutes) =>
+                                    setComponentAlarm(key, minutes ?? null)
+                                }
+                            />
+                        </div>
+                    ))}
+                    <div className="space-y-1">
+                        <label
+                            htmlFor="alarm-exams"
+                            className="text-xs font-mono text-gray-600"
+                        >
+                            Final exams
+                        </label>
+                        <AlarmSelect
+                            id="alarm-exams"
+                            value={alarms.exams ?? null}
+                            onChange={(minutes) =>
+                                onChange({ ...alarms, exams: minutes ?? null })
+                            }
+                        />
+                    </div>
+                </div>
+            </div>
+            {courseCodes.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-gray-500 uppercase">
+                        Course Overrides
+                    </h4>
+                    <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                        {courseCodes.map((courseCode) => (
+                            <div key={courseCode} className="space-y-1">
+                                <label
+                                    htmlFor={`alarm-course-${courseCode.replace(/\s+/g, "-")}`}
+                                    className="text-xs font-mono text-gray-600"
+                                >
+                                    {courseCode}
+                                </label>
+                                <AlarmSelect
+                                    id={`alarm-course-${courseCode.replace(/\s+/g, "-")}`}
+                                    value={
+                                        courseCode in alarms.byCourse
+                                            ? alarms.byCourse[courseCode]
+                                            : undefined
+                                    }
+                                    allowDefault
+                                    onChange={(minutes) =>
+                                        setCourseAlarm(courseCode, minutes)
+                                    }
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
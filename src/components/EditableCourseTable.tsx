@@ -2,11 +2,32 @@ import type React from "react";
 import { useEffect, useRef, useState } from "react";
 import { StatusBadge } from "@/components/StatusBadge";
 import {
-    type SchedulePattern,
+    describeMeeting,
+    findScheduleConflicts,
+    getMeetingKey,
+    groupConflictsByMeeting,
+    type MeetingRef,
+} from "@/lib/conflicts";
+import {
+    COURSE_COLORS,
+    getCourseCategories,
+    getCourseColor,
+    parseCategories,
+} from "@/lib/courseColors";
+import { isOneTimeMeeting } from "@/lib/icsExport";
+import {
+    type DateRange,
     parseDaysAndTimes,
     parseUserDateRange,
+    type SchedulePattern,
 } from "@/lib/parser";
-import type { ClassSession, Course, ParsedSchedule } from "@/lib/schema";
+import type {
+    ClassMeeting,
+    ClassSession,
+    Course,
+    ParsedSchedule,
+} from "@/lib/schema";
+import { getMeetingRowId } from "@/lib/timetable";
 
 interface EditableCourseTableProps {
     schedule: ParsedSchedule | null;
@@ -86,12 +107,130 @@ const EditableCell: React.FC<EditableCellProps> = ({
     );
 };
 
+interface DateRangeCellProps {
+    startDate: Date;
+    endDate: Date;
+    onChange: (range: DateRange) => void;
+}
+
+const DateRangeCell: React.FC<DateRangeCellProps> = ({
+    startDate,
+    endDate,
+    onChange,
+}) => {
+    const formatDateString = (date: Date) =>
+        date.toLocaleDateString(undefined, {
+            month: "2-digit",
+            day: "2-digit",
+            year: "numeric",
+        });
+    const formatLongDateString = (date: Date) =>
+        date.toLocaleDateString(undefined, {
+            month: "long",
+            day: "numeric",
+            year: "numeric",
+        });
+
+    // Single-date sessions are exported as one event instead of a weekly series
+    const oneTime = isOneTimeMeeting({ startDate, endDate });
+
+    return (
+        <div className="flex items-center gap-2">
+            <EditableCell
+                title={`${formatLongDateString(startDate)} - ${formatLongDateString(endDate)}`}
+                value={`${formatDateString(startDate)} - ${formatDateString(endDate)}`}
+                onChange={(v) => {
+                    // Only update if able to parse, otherwise keep the previous range
+                    const range = parseUserDateRange(v);
+                    if (range) onChange(range);
+                }}
+            />
+            {oneTime && (
+                <span
+                    className="shrink-0 px-2 py-0.5 rounded-full text-xs font-medium border bg-purple-50 text-purple-700 border-purple-200"
+                    title="Exported as a single event"
+                >
+                    one-time
+                </span>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Subject badge in the course's calendar colour
+ */
+const CourseBadge: React.FC<{ courseCode: string; hex: string }> = ({
+    courseCode,
+    hex,
+}) => (
+    <div
+        className="h-10 w-10 rounded-lg flex items-center justify-center font-bold text-sm shadow-sm border"
+        style={{
+            color: hex,
+            backgroundColor: `${hex}1a`,
+            borderColor: `${hex}40`,
+        }}
+    >
+        {courseCode.split(" ")[0]}
+    </div>
+);
+
+interface CourseColorSelectProps {
+    id: string;
+    value: string;
+    onChange: (value: string) => void;
+}
+
+const CourseColorSelect: React.FC<CourseColorSelectProps> = ({
+    id,
+    value,
+    onChange,
+}) => (
+    <select
+        id={id}
+        aria-label="Calendar colour"
+        title="Calendar colour"
+        className="px-1.5 py-0.5 rounded border border-gray-200 bg-white/50 text-xs text-gray-600 focus:ring-1 focus:ring-blue-500 outline-none"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+    >
+        {COURSE_COLORS.map((color) => (
+            <option key={color.name} value={color.name}>
+                {color.label}
+            </option>
+        ))}
+    </select>
+);
+
 export const EditableCourseTable: React.FC<EditableCourseTableProps> = ({
     schedule,
     onScheduleChange,
 }) => {
     if (!schedule) return null;
 
+    const conflictsByMeeting = groupConflictsByMeeting(
+        findScheduleConflicts(schedule),
+    );
+
+    /**
+     * The meetings a meeting clashes with, e.g. "Conflicts with MATH 135 TUT 101 (Th 10:30AM - 11:20AM)"
+     */
+    const getConflictNote = (ref: MeetingRef): string | null => {
+        const conflicts = conflictsByMeeting.get(getMeetingKey(ref));
+        if (!conflicts) return null;
+
+        const others = conflicts.map((conflict) =>
+            describeMeeting(
+                schedule,
+                getMeetingKey(conflict.first) === getMeetingKey(ref)
+                    ? conflict.second
+                    : conflict.first,
+            ),
+        );
+        return `Conflicts with ${others.join(", ")}`;
+    };
+
     const getScheduleTooltip = (daysAndTimes: string): string => {
         const pattern: SchedulePattern | null = parseDaysAndTimes(daysAndTimes);
         if (!pattern)
@@ -139,6 +278,18 @@ export const EditableCourseTable: React.FC<EditableCourseTableProps> = ({
         onScheduleChange({ ...schedule, courses: newCourses });
     };
 
+    const updateMeeting = (
+        courseIdx: number,
+        sessionIdx: number,
+        meetingIdx: number,
+        updates: Partial<ClassMeeting>,
+    ) => {
+        const session = schedule.courses[courseIdx].sessions[sessionIdx];
+        const newMeetings = [...session.meetings];
+        newMeetings[meetingIdx] = { ...newMeetings[meetingIdx], ...updates };
+        updateSession(courseIdx, sessionIdx, { meetings: newMeetings });
+    };
+
     return (
         <div className="w-full space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
             <div className="flex flex-col md:flex-row md:items-center justify-between bg-white/50 backdrop-blur-sm p-4 rounded-xl border border-white/20 shadow-sm">
@@ -165,14 +316,15 @@ export const EditableCourseTable: React.FC<EditableCourseTableProps> = ({
                 {schedule.courses.map((course, courseIdx) => (
                     <div
                         key={`${course.courseCode}-${courseIdx}`}
-                        className="bg-white/70 backdrop-blur-md rounded-xl border border-white/40 shadow-sm overflow-hidden hover:shadow-md transition-all duration-200"
+                        className={`bg-white/70 backdrop-blur-md rounded-xl border border-white/40 shadow-sm overflow-hidden hover:shadow-md transition-all duration-200 ${course.excluded ? "opacity-60" : ""}`}
                     >
                         {/* Course Header */}
                         <div className="p-4 border-b border-gray-100 bg-white/30 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
                             <div className="flex items-center gap-3">
-                                <div className="h-10 w-10 rounded-lg bg-blue-50 flex items-center justify-center text-blue-600 font-bold text-sm shadow-sm border border-blue-100">
-                                    {course.courseCode.split(" ")[0]}
-                                </div>
+                                <CourseBadge
+                                    courseCode={course.courseCode}
+                                    hex={getCourseColor(course, courseIdx).hex}
+                                />
                                 <div>
                                     <h3 className="font-semibold text-gray-900">
                                         <EditableCell
@@ -196,11 +348,52 @@ export const EditableCourseTable: React.FC<EditableCourseTableProps> = ({
                                     </p>
                                 </div>
                             </div>
-                            <div className="flex items-center gap-3">
+                            <div className="flex flex-wrap items-center gap-3">
+                                <div className="text-xs text-gray-500 min-w-24">
+                                    <EditableCell
+                                        value={getCourseCategories(course).join(
+                                            ", ",
+                                        )}
+                                        onChange={(v) =>
+                                            updateCourse(courseIdx, {
+                                                categories: parseCategories(v),
+                                            })
+                                        }
+                                        title="Calendar categories, separated by commas"
+                                    />
+                                </div>
+                                <CourseColorSelect
+                                    id={`course-color-${courseIdx}`}
+                                    value={
+                                        getCourseColor(course, courseIdx).name
+                                    }
+                                    onChange={(v) =>
+                                        updateCourse(courseIdx, { color: v })
+                                    }
+                                />
                                 <span className="text-xs font-mono text-gray-400">
                                     {course.units.toFixed(2)} Units
                                 </span>
                                 <StatusBadge status={course.status} />
+                                <label
+                                    className="flex items-center gap-1.5 text-xs text-gray-600"
+                                    title={
+                                        course.status === "Dropped"
+                                            ? "Dropped courses are skipped unless Export Options say to cancel them"
+                                            : "Include this course in the export"
+                                    }
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={!course.excluded}
+                                        onChange={(e) =>
+                                            updateCourse(courseIdx, {
+                                                excluded: !e.target.checked,
+                                            })
+                                        }
+                                    />
+                                    Export
+                                </label>
                             </div>
                         </div>
 
@@ -234,165 +427,203 @@ export const EditableCourseTable: React.FC<EditableCourseTableProps> = ({
                                 </thead>
                                 <tbody className="divide-y divide-gray-100">
                                     {course.sessions.map(
-                                        (session, sessionIdx) => (
-                                            <tr
-                                                key={`${session.classNumber}-${session.section}-${sessionIdx}`}
-                                                className="hover:bg-gray-50/30 transition-colors"
-                                            >
-                                                <td className="px-4 py-2.5 font-mono text-gray-400 text-xs">
-                                                    {session.classNumber}
-                                                </td>
-                                                <td className="px-4 py-2.5 font-medium text-gray-700">
-                                                    <EditableCell
-                                                        value={session.section}
-                                                        onChange={(v) =>
-                                                            updateSession(
-                                                                courseIdx,
-                                                                sessionIdx,
-                                                                { section: v },
-                                                            )
-                                                        }
-                                                    />
-                                                </td>
-                                                <td className="px-4 py-2.5">
-                                                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-50 text-blue-700">
-                                                        <EditableCell
-                                                            value={
-                                                                session.component
-                                                            }
-                                                            onChange={(v) =>
-                                                                updateSession(
+                                        (session, sessionIdx) =>
+                                            session.meetings.map(
+                                                (meeting, meetingIdx) => {
+                                                    const conflictNote =
+                                                        getConflictNote({
+                                                            courseIdx,
+                                                            sessionIdx,
+                                                            meetingIdx,
+                                                        });
+                                                    return (
+                                                        <tr
+                                                            key={`${session.classNumber}-${session.section}-${sessionIdx}-${meetingIdx}`}
+                                                            id={getMeetingRowId(
+                                                                {
                                                                     courseIdx,
                                                                     sessionIdx,
-                                                                    {
-                                                                        component:
-                                                                            v,
-                                                                    },
-                                                                )
-                                                            }
-                                                        />
-                                                    </span>
-                                                </td>
-                                                <td className="px-4 py-2.5 font-medium text-gray-900">
-                                                    <EditableCell
-                                                        value={
-                                                            session.daysAndTimes
-                                                        }
-                                                        onChange={(v) =>
-                                                            updateSession(
-                                                                courseIdx,
-                                                                sessionIdx,
-                                                                {
-                                                                    daysAndTimes:
-                                                                        v,
+                                                                    meetingIdx,
                                                                 },
-                                                            )
-                                                        }
-                                                        title={getScheduleTooltip(
-                                                            session.daysAndTimes,
-                                                        )}
-                                                    />
-                                                </td>
-                                                <td className="px-4 py-2.5 text-gray-600">
-                                                    <EditableCell
-                                                        value={session.room}
-                                                        onChange={(v) =>
-                                                            updateSession(
-                                                                courseIdx,
-                                                                sessionIdx,
-                                                                { room: v },
-                                                            )
-                                                        }
-                                                    />
-                                                </td>
-                                                <td className="px-4 py-2.5 text-gray-800">
-                                                    <EditableCell
-                                                        value={
-                                                            session.instructor
-                                                        }
-                                                        onChange={(v) =>
-                                                            updateSession(
-                                                                courseIdx,
-                                                                sessionIdx,
-                                                                {
-                                                                    instructor:
+                                                            )}
+                                                            className={`transition-colors focus-within:bg-blue-50/70 ${conflictNote ? "bg-red-50/70 hover:bg-red-50" : "hover:bg-gray-50/30"}`}
+                                                        >
+                                                            {meetingIdx ===
+                                                                0 && (
+                                                                <>
+                                                                    <td
+                                                                        rowSpan={
+                                                                            session
+                                                                                .meetings
+                                                                                .length
+                                                                        }
+                                                                        className="px-4 py-2.5 align-top font-mono text-gray-400 text-xs"
+                                                                    >
+                                                                        {
+                                                                            session.classNumber
+                                                                        }
+                                                                    </td>
+                                                                    <td
+                                                                        rowSpan={
+                                                                            session
+                                                                                .meetings
+                                                                                .length
+                                                                        }
+                                                                        className="px-4 py-2.5 align-top font-medium text-gray-700"
+                                                                    >
+                                                                        <EditableCell
+                                                                            value={
+                                                                                session.section
+                                                                            }
+                                                                            onChange={(
+                                                                                v,
+                                                                            ) =>
+                                                                                updateSession(
+                                                                                    courseIdx,
+                                                                                    sessionIdx,
+                                                                                    {
+                                                                                        section:
+                                                                                            v,
+                                                                                    },
+                                                                                )
+                                                                            }
+                                                                        />
+                                                                    </td>
+                                                                    <td
+                                                                        rowSpan={
+                                                                            session
+                                                                                .meetings
+                                                                                .length
+                                                                        }
+                                                                        className="px-4 py-2.5 align-top"
+                                                                    >
+                                                                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-50 text-blue-700">
+                                                                            <EditableCell
+                                                                                value={
+                                                                                    session.component
+                                                                                }
+                                                                                onChange={(
+                                                                                    v,
+                                                                                ) =>
+                                                                                    updateSession(
+                                                                                        courseIdx,
+                                                                                        sessionIdx,
+                                                                                        {
+                                                                                            component:
+                                                                                                v,
+                                                                                        },
+                                                                                    )
+                                                                                }
+                                                                            />
+                                                                        </span>
+                                                                        {session.exam && (
+                                                                            <span className="ml-1 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700">
+                                                                                Final
+                                                                                exam
+                                                                            </span>
+                                                                        )}
+                                                                    </td>
+                                                                </>
+                                                            )}
+                                                            <td className="px-4 py-2.5 font-medium text-gray-900">
+                                                                <EditableCell
+                                                                    value={
+                                                                        meeting.daysAndTimes
+                                                                    }
+                                                                    onChange={(
                                                                         v,
-                                                                },
-                                                            )
-                                                        }
-                                                    />
-                                                </td>
-                                                <td className="px-4 py-2.5 text-xs text-gray-500 whitespace-nowrap">
-                                                    {(() => {
-                                                        const formatDateString =
-                                                            (date: Date) => {
-                                                                return date.toLocaleDateString(
-                                                                    undefined,
-                                                                    {
-                                                                        month: "2-digit",
-                                                                        day: "2-digit",
-                                                                        year: "numeric",
-                                                                    },
-                                                                );
-                                                            };
-                                                        const [
-                                                            startEndDateString,
-                                                            setStartEndDateString,
-                                                            // biome-ignore lint/correctness/useHookAtTopLevel: Much more concise doing inline.
-                                                        ] = useState(
-                                                            `${formatDateString(session.startDate)} - ${formatDateString(session.endDate)}`,
-                                                        );
-
-                                                        return (
-                                                            <EditableCell
-                                                                title={`${session.startDate.toLocaleDateString(
-                                                                    undefined,
-                                                                    {
-                                                                        month: "long",
-                                                                        day: "numeric",
-                                                                        year: "numeric",
-                                                                    },
-                                                                )} - ${session.endDate.toLocaleDateString(
-                                                                    undefined,
-                                                                    {
-                                                                        month: "long",
-                                                                        day: "numeric",
-                                                                        year: "numeric",
-                                                                    },
-                                                                )}`}
-                                                                value={
-                                                                    startEndDateString
-                                                                }
-                                                                onChange={(
-                                                                    v,
-                                                                ) => {
-                                                                    const range =
-                                                                        parseUserDateRange(
-                                                                            v,
-                                                                        );
-                                                                    if (range) {
-                                                                        // If able to parse, update session and update value
-                                                                        updateSession(
+                                                                    ) =>
+                                                                        updateMeeting(
+                                                                            courseIdx,
+                                                                            sessionIdx,
+                                                                            meetingIdx,
+                                                                            {
+                                                                                daysAndTimes:
+                                                                                    v,
+                                                                            },
+                                                                        )
+                                                                    }
+                                                                    title={getScheduleTooltip(
+                                                                        meeting.daysAndTimes,
+                                                                    )}
+                                                                />
+                                                                {conflictNote && (
+                                                                    <p className="mt-1 text-xs font-normal text-red-700">
+                                                                        ⚠️{" "}
+                                                                        {
+                                                                            conflictNote
+                                                                        }
+                                                                    </p>
+                                                                )}
+                                                            </td>
+                                                            <td className="px-4 py-2.5 text-gray-600">
+                                                                <EditableCell
+                                                                    value={
+                                                                        meeting.room
+                                                                    }
+                                                                    onChange={(
+                                                                        v,
+                                                                    ) =>
+                                                                        updateMeeting(
+                                                                            courseIdx,
+                                                                            sessionIdx,
+                                                                            meetingIdx,
+                                                                            {
+                                                                                room: v,
+                                                                            },
+                                                                        )
+                                                                    }
+                                                                />
+                                                            </td>
+                                                            <td className="px-4 py-2.5 text-gray-800">
+                                                                <EditableCell
+                                                                    value={
+                                                                        meeting.instructor
+                                                                    }
+                                                                    onChange={(
+                                                                        v,
+                                                                    ) =>
+                                                                        updateMeeting(
+                                                                            courseIdx,
+                                                                            sessionIdx,
+                                                                            meetingIdx,
+                                                                            {
+                                                                                instructor:
+                                                                                    v,
+                                                                            },
+                                                                        )
+                                                                    }
+                                                                />
+                                                            </td>
+                                                            <td className="px-4 py-2.5 text-xs text-gray-500 whitespace-nowrap">
+                                                                <DateRangeCell
+                                                                    startDate={
+                                                                        meeting.startDate
+                                                                    }
+                                                                    endDate={
+                                                                        meeting.endDate
+                                                                    }
+                                                                    onChange={(
+                                                                        range,
+                                                                    ) =>
+                                                                        updateMeeting(
                                                                             courseIdx,
                                                                             sessionIdx,
+                                                                            meetingIdx,
                                                                             {
                                                                                 startDate:
                                                                                     range.start,
                                                                                 endDate:
                                                                                     range.end,
                                                                             },
-                                                                        );
-                                                                        setStartEndDateString(
-                                                                            `${formatDateString(range.start)} - ${formatDateString(range.end)}`,
-                                                                        );
+                                                                        )
                                                                     }
-                                                                }}
-                                                            />
-                                                        );
-                                                    })()}
-                                                </td>
-                                            </tr>
-                                        ),
+                                                                />
+                                                            </td>
+                                                        </tr>
+                                                    );
+                                                },
+                                            ),
                                     )}
                                 </tbody>
                             </table>
@@ -0,0 +1,100 @@
+import type React from "react";
+import type { ExportGrouping } from "@/lib/schema";
+
+interface ExportGroupingEditorProps {
+    grouping: ExportGrouping;
+    customGroups: Record<string, string>;
+    /** Course components that can be grouped, e.g. "CS 136 LEC" */
+    groupKeys: { key: string; courseCode: string }[];
+    onGroupingChange: (grouping: ExportGrouping) => void;
+    onCustomGroupsChange: (customGroups: Record<string, string>) => void;
+}
+
+const GROUPING_LABELS: Record<ExportGrouping, string> = {
+    none: "One calendar",
+    course: "One calendar per course",
+    component: "One calendar per component (LEC, TUT, ...)",
+    custom: "Custom groups",
+};
+
+/**
+ * Choice of how to split the export into calendars, with the group of each
+ * course component when using custom groups.
+ */
+export const ExportGroupingEditor: React.FC<ExportGroupingEditorProps> = ({
+    grouping,
+    customGroups,
+    groupKeys,
+    onGroupingChange,
+    onCustomGroupsChange,
+}) => {
+    const setCustomGroup = (key: string, group: string) => {
+        const next = { ...customGroups };
+        if (group) {
+            next[key] = group;
+        } else {
+            delete next[key];
+        }
+        onCustomGroupsChange(next);
+    };
+
+    return (
+        <div className="space-y-2">
+            <label
+                htmlFor="export-grouping"
+                className="text-xs font-medium text-gray-500 uppercase"
+            >
+                Calendars
+            </label>
+            <select
+                id="export-grouping"
+                className="w-full md:w-auto px-3 py-2 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                value={grouping}
+                onChange={(e) =>
+                    onGroupingChange(e.target.value as ExportGrouping)
+                }
+            >
+                {(Object.keys(GROUPING_LABELS) as ExportGrouping[]).map(
+                    (key) => (
+                        <option key={key} value={key}>
+                            {GROUPING_LABELS[key]}
+                        </option>
+                    ),
+                )}
+            </select>
+            {grouping === "custom" && (
+                <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                    {groupKeys.map(({ key, courseCode }) => {
+                        const id = `custom-group-${key.replace(/\s+/g, "-")}`;
+                        return (
+                            <div key={key} className="space-y-1">
+                                <label
+                                    htmlFor={id}
+                                    className="text-xs font-mono text-gray-600"
+                                >
+                                    {key}
+                                </label>
+                                <input
+                                    id={id}
+                                    type="text"
+                                    className="w-full px-2 py-1.5 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                                    placeholder={courseCode}
+                                    value={customGroups[key] ?? ""}
+                                    onChange={(e) =>
+                                        setCustomGroup(key, e.target.value)
+                                    }
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {grouping !== "none" && (
+                <p className="text-xs text-gray-400">
+                    Each calendar is a separate .ics file, downloaded together
+                    as a zip.
+                </p>
+            )}
+        </div>
+    );
+};
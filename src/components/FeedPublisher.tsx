@@ -0,0 +1,143 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+import {
+    loadPublishedFeed,
+    type PublishedFeed,
+    publishFeed,
+    savePublishedFeed,
+    unpublishFeed,
+    updatePublishedFeed,
+} from "@/lib/feedClient";
+import { writeScheduleFile } from "@/lib/scheduleFile";
+import type { ExportPreferences, ParsedSchedule } from "@/lib/schema";
+
+interface FeedPublisherProps {
+    schedules: ParsedSchedule[];
+    preferences: ExportPreferences;
+}
+
+/**
+ * Opt-in calendar feed: publishes the schedule to a private link calendar
+ * apps subscribe to, then updates or revokes it.
+ */
+export const FeedPublisher: React.FC<FeedPublisherProps> = ({
+    schedules,
+    preferences,
+}) => {
+    const [feed, setFeed] = useState<PublishedFeed | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // localStorage is only available after hydration
+    useEffect(() => {
+        setFeed(loadPublishedFeed());
+    }, []);
+
+    const run = async (action: () => Promise<string>) => {
+        setIsBusy(true);
+        setError(null);
+        setStatus(null);
+        try {
+            setStatus(await action());
+        } catch (err) {
+            setError(
+                err instanceof Error ? err.message : "The feed request failed",
+            );
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handlePublish = () =>
+        run(async () => {
+            const published = await publishFeed(
+                writeScheduleFile(schedules, preferences),
+            );
+            savePublishedFeed(published);
+            setFeed(published);
+            return "Published. Subscribe to the link in your calendar app.";
+        });
+
+    const handleUpdate = (current: PublishedFeed) =>
+        run(async () => {
+            await updatePublishedFeed(
+                current,
+                writeScheduleFile(schedules, preferences),
+            );
+            return "Updated. Calendar apps pick up the change the next time they refresh.";
+        });
+
+    const handleRevoke = (current: PublishedFeed) =>
+        run(async () => {
+            await unpublishFeed(current);
+            savePublishedFeed(null);
+            setFeed(null);
+            return "Feed removed, the link no longer works.";
+        });
+
+    const buttonClass =
+        "px-4 py-2 text-sm font-medium text-gray-700 bg-white/70 border border-gray-200 rounded-lg hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm";
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-xs font-medium text-gray-500 uppercase">
+                Calendar Feed
+            </h3>
+            {feed ? (
+                <>
+                    <input
+                        type="text"
+                        readOnly
+                        aria-label="Feed link"
+                        className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white/50 text-sm font-mono"
+                        value={feed.url}
+                        onFocus={(e) => e.target.select()}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                        <a
+                            href={feed.url.replace(/^https?:/, "webcal:")}
+                            className={buttonClass}
+                        >
+                            📅 Subscribe
+                        </a>
+                        <button
+                            type="button"
+                            className={buttonClass}
+                            disabled={isBusy}
+                            onClick={() => handleUpdate(feed)}
+                        >
+                            Update Feed
+                        </button>
+                        <button
+                            type="button"
+                            className={buttonClass}
+                            disabled={isBusy}
+                            onClick={() => handleRevoke(feed)}
+                        >
+                            Stop Publishing
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className="text-xs text-gray-400">
+                        Publish the schedule to a private link calendar apps can
+                        subscribe to, so later changes show up without importing
+                        again. Anyone with the link can see the schedule.
+                    </p>
+                    <button
+                        type="button"
+                        className={buttonClass}
+                        disabled={isBusy}
+                        onClick={handlePublish}
+                    >
+                        Publish Feed
+                    </button>
+                </>
+            )}
+            {status && <p className="text-xs text-green-700">{status}</p>}
+            {error && <p className="text-xs text-red-700">{error}</p>}
+        </div>
+    );
+};
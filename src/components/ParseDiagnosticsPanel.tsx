@@ -0,0 +1,148 @@
+import type React from "react";
+import { useRef } from "react";
+import type { DiagnosticSeverity, ParseDiagnostic } from "@/lib/schema";
+
+interface ParseDiagnosticsPanelProps {
+    input: string;
+    diagnostics: ParseDiagnostic[];
+    /** Heading, for panels other than the schedule's */
+    title?: string;
+}
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = {
+    error: 2,
+    warning: 1,
+    info: 0,
+};
+
+const SEVERITY_STYLES: Record<
+    DiagnosticSeverity,
+    { line: string; badge: string }
+> = {
+    error: {
+        line: "bg-red-100 text-red-900",
+        badge: "bg-red-100 text-red-800 border-red-200",
+    },
+    warning: {
+        line: "bg-amber-100 text-amber-900",
+        badge: "bg-amber-100 text-amber-800 border-amber-200",
+    },
+    info: {
+        line: "bg-blue-50 text-blue-900",
+        badge: "bg-blue-50 text-blue-700 border-blue-200",
+    },
+};
+
+/**
+ * Shows the pasted input next to the parser diagnostics, highlighting the offending lines.
+ */
+export const ParseDiagnosticsPanel: React.FC<ParseDiagnosticsPanelProps> = ({
+    input,
+    diagnostics,
+    title = "Parse Diagnostics",
+}) => {
+    const lineRefs = useRef(new Map<number, HTMLLIElement>());
+
+    if (diagnostics.length === 0) return null;
+
+    // Worst severity per source line
+    const lineSeverity = new Map<number, DiagnosticSeverity>();
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.line === undefined) continue;
+        const current = lineSeverity.get(diagnostic.line);
+        if (
+            !current ||
+            SEVERITY_RANK[diagnostic.severity] > SEVERITY_RANK[current]
+        ) {
+            lineSeverity.set(diagnostic.line, diagnostic.severity);
+        }
+    }
+
+    const sourceLines = input.split("\n");
+
+    const scrollToLine = (line: number) => {
+        lineRefs.current.get(line)?.scrollIntoView({
+            behavior: "smooth",
+            block: "center",
+        });
+    };
+
+    return (
+        <div className="p-6 bg-white/60 backdrop-blur-sm border border-gray-200 rounded-2xl shadow-sm space-y-4">
+            <h3 className="font-semibold text-gray-900">
+                {title} ({diagnostics.length})
+            </h3>
+            <div className="grid gap-4 md:grid-cols-2">
+                <ol className="max-h-80 overflow-auto rounded-lg border border-gray-200 bg-white/80 font-mono text-xs">
+                    {sourceLines.map((text, idx) => {
+                        const lineNumber = idx + 1;
+                        const severity = lineSeverity.get(lineNumber);
+                        return (
+                            <li
+                                key={lineNumber}
+                                ref={(el) => {
+                                    if (el)
+                                        lineRefs.current.set(lineNumber, el);
+                                    else lineRefs.current.delete(lineNumber);
+                                }}
+                                className={`flex gap-3 px-2 whitespace-pre ${severity ? SEVERITY_STYLES[severity].line : "text-gray-600"}`}
+                            >
+                                <span className="w-8 shrink-0 text-right text-gray-400 select-none">
+                                    {lineNumber}
+                                </span>
+                                <span>{text.replace(/\t/g, "    ")}</span>
+                            </li>
+                        );
+                    })}
+                </ol>
+                <ul className="max-h-80 overflow-y-auto space-y-2 text-sm">
+                    {diagnostics.map((diagnostic, idx) => (
+                        <li
+                            // biome-ignore lint/suspicious/noArrayIndexKey: Diagnostics are not reordered.
+                            key={idx}
+                        >
+                            <button
+                                type="button"
+                                disabled={diagnostic.line === undefined}
+                                onClick={() =>
+                                    diagnostic.line !== undefined &&
+                                    scrollToLine(diagnostic.line)
+                                }
+                                className="w-full text-left p-2 rounded-lg border border-gray-100 bg-white/70 hover:bg-gray-50 disabled:hover:bg-white/70 disabled:cursor-default transition-colors"
+                            >
+                                <div className="flex items-center gap-2">
+                                    <span
+                                        className={`px-2 py-0.5 rounded-full text-xs font-medium border ${SEVERITY_STYLES[diagnostic.severity].badge}`}
+                                    >
+                                        {diagnostic.severity}
+                                    </span>
+                                    {diagnostic.line !== undefined && (
+                                        <span className="text-xs font-mono text-gray-400">
+                                            line {diagnostic.line}
+                                        </span>
+                                    )}
+                                    {diagnostic.courseCode && (
+                                        <span className="text-xs font-medium text-gray-600">
+                                            {diagnostic.courseCode}
+                                            {diagnostic.classNumber !==
+                                                undefined &&
+                                                ` #${diagnostic.classNumber}`}
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="mt-1 text-gray-800">
+                                    {diagnostic.message}
+                                </p>
+                                {diagnostic.text && (
+                                    <p className="mt-1 font-mono text-xs text-gray-500 truncate">
+                                        {diagnostic.text}
+                                    </p>
+                                )}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
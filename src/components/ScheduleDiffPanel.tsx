@@ -0,0 +1,155 @@
+import type React from "react";
+import type { ScheduleDiff, SessionChangeKind } from "@/lib/scheduleDiff";
+
+interface ScheduleDiffPanelProps {
+    diff: ScheduleDiff;
+    onDownloadUpdate: () => void;
+    onClear: () => void;
+}
+
+const KIND_STYLES: Record<SessionChangeKind, string> = {
+    added: "bg-green-100 text-green-800 border-green-200",
+    dropped: "bg-red-100 text-red-800 border-red-200",
+    changed: "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+const PROPERTY_LABELS: Record<string, string> = {
+    SUMMARY: "Title",
+    DTSTART: "Starts",
+    DTEND: "Ends",
+    RRULE: "Repeats",
+    RDATE: "Extra dates",
+    EXDATE: "Skipped dates",
+    LOCATION: "Location",
+    DESCRIPTION: "Description",
+    CATEGORIES: "Categories",
+    COLOR: "Colour",
+    STATUS: "Status",
+};
+
+/**
+ * Makes ICS date-times readable, e.g. "20260105T083000" -> "2026-01-05 08:30"
+ */
+function formatPropertyValue(value: string | undefined): string {
+    if (!value) return "none";
+    return value.replace(
+        /(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})\d{2}Z?/g,
+        "$1-$2-$3 $4:$5",
+    );
+}
+
+/**
+ * Lists the sessions added, dropped or changed since a previous export.
+ */
+export const ScheduleDiffPanel: React.FC<ScheduleDiffPanelProps> = ({
+    diff,
+    onDownloadUpdate,
+    onClear,
+}) => {
+    const counts = {
+        added: diff.changes.filter((c) => c.kind === "added").length,
+        dropped: diff.changes.filter((c) => c.kind === "dropped").length,
+        changed: diff.changes.filter((c) => c.kind === "changed").length,
+    };
+
+    return (
+        <div className="p-6 bg-white/60 backdrop-blur-sm border border-gray-200 rounded-2xl shadow-sm space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="font-semibold text-gray-900">
+                    Changes Since Previous Export
+                </h3>
+                <div className="flex flex-wrap gap-2 text-xs font-medium">
+                    {(Object.keys(counts) as SessionChangeKind[]).map(
+                        (kind) => (
+                            <span
+                                key={kind}
+                                className={`px-2.5 py-0.5 rounded-full border ${KIND_STYLES[kind]}`}
+                            >
+                                {counts[kind]} {kind}
+                            </span>
+                        ),
+                    )}
+                    <span className="px-2.5 py-0.5 rounded-full border bg-gray-100 text-gray-700 border-gray-200">
+                        {diff.unchanged} unchanged
+                    </span>
+                </div>
+            </div>
+
+            {diff.changes.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                    Nothing changed, your calendar is up to date.
+                </p>
+            ) : (
+                <ul className="max-h-80 overflow-y-auto space-y-2 text-sm">
+                    {diff.changes.map((change) => (
+                        <li
+                            key={change.uid}
+                            className="p-3 rounded-lg border border-gray-100 bg-white/70"
+                        >
+                            <div className="flex items-center gap-2">
+                                <span
+                                    className={`px-2 py-0.5 rounded-full text-xs font-medium border ${KIND_STYLES[change.kind]}`}
+                                >
+                                    {change.kind}
+                                </span>
+                                <span className="font-medium text-gray-900">
+                                    {change.summary}
+                                </span>
+                            </div>
+                            {change.changedProperties.length > 0 && (
+                                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                                    {change.changedProperties.map((name) => (
+                                        <div key={name} className="contents">
+                                            <dt className="font-medium text-gray-500">
+                                                {PROPERTY_LABELS[name] ?? name}
+                                            </dt>
+                                            <dd className="font-mono text-gray-700 break-all">
+                                                <span className="line-through text-red-600">
+                                                    {formatPropertyValue(
+                                                        change.before
+                                                            ?.properties[name],
+                                                    )}
+                                                </span>{" "}
+                                                →{" "}
+                                                <span className="text-green-700">
+                                                    {formatPropertyValue(
+                                                        change.after
+                                                            ?.properties[name],
+                                                    )}
+                                                </span>
+                                            </dd>
+                                        </div>
+                                    ))}
+                                </dl>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+                <button
+                    type="button"
+                    onClick={onDownloadUpdate}
+                    disabled={diff.changes.length === 0}
+                    className="px-4 py-2 bg-gray-900 hover:bg-black disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95"
+                >
+                    Download Update (.ics)
+                </button>
+                <button
+                    type="button"
+                    onClick={onClear}
+                    className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                    Stop Comparing
+                </button>
+            </div>
+            {counts.dropped > 0 && (
+                <p className="text-xs text-gray-400">
+                    Dropped sessions are removed by a second file with
+                    METHOD:CANCEL, import it after the update.
+                </p>
+            )}
+        </div>
+    );
+};
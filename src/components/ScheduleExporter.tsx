@@ -1,32 +1,182 @@
+import type React from "react";
 import { useEffect, useRef, useState } from "react";
+import { AlarmSettingsEditor } from "@/components/AlarmSettingsEditor";
 import { EditableCourseTable } from "@/components/EditableCourseTable";
-import { downloadIcs, generateScheduleIcs } from "@/lib/icsExport";
-import { parseSchedule } from "@/lib/parser";
-import type { ParsedSchedule } from "@/lib/schema";
+import { ExportGroupingEditor } from "@/components/ExportGroupingEditor";
+import { FeedPublisher } from "@/components/FeedPublisher";
+import { ParseDiagnosticsPanel } from "@/components/ParseDiagnosticsPanel";
+import { ScheduleDiffPanel } from "@/components/ScheduleDiffPanel";
+import { TemplateInput } from "@/components/TemplateInput";
+import { WeeklyTimetable } from "@/components/WeeklyTimetable";
+import {
+    detectScheduleView,
+    parseAnySchedules,
+    SCHEDULE_VIEW_LABELS,
+} from "@/lib/autoParse";
+import { findScheduleConflicts, formatConflict } from "@/lib/conflicts";
+import { generateScheduleCsv } from "@/lib/csvExport";
+import { mergeExamSchedule, parseExamSchedule } from "@/lib/examParser";
+import {
+    loadExportPreferences,
+    saveExportPreferences,
+} from "@/lib/exportPreferences";
+import { isQuestScheduleHtml, parseScheduleHtml } from "@/lib/htmlParser";
+import {
+    DEFAULT_ALARM_SETTINGS,
+    DEFAULT_EXPORT_OPTIONS,
+    downloadFile,
+    downloadIcs,
+    generateScheduleIcs,
+    getScheduleFilename,
+    type IcsExportOptions,
+} from "@/lib/icsExport";
+import { parseIcsSchedule } from "@/lib/icsImport";
+import { type ParseResult, ParserError, splitTermSections } from "@/lib/parser";
+import {
+    diffSchedules,
+    type EventSnapshot,
+    generateUpdateIcs,
+    snapshotIcs,
+    snapshotSchedule,
+} from "@/lib/scheduleDiff";
+import { readScheduleFile, writeScheduleFile } from "@/lib/scheduleFile";
+import type {
+    AlarmSettings,
+    DroppedCourseExport,
+    ExportFormat,
+    ExportGrouping,
+    ExportPreferences,
+    ParseDiagnostic,
+    ParsedSchedule,
+    ScheduleView,
+} from "@/lib/schema";
+import {
+    generateGroupedIcs,
+    listCustomGroupKeys,
+    zipCalendarGroups,
+} from "@/lib/splitExport";
+import {
+    getPreviewContext,
+    TEMPLATE_FIELDS,
+    TEMPLATE_FILTERS,
+} from "@/lib/template";
+import { parseSkipDates } from "@/lib/termCalendar";
 import { decodeScheduleFromUrl, encodeScheduleToUrl } from "@/lib/urlState";
 
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    ics: "iCalendar (.ics)",
+    csv: "Spreadsheet (.csv), one row per session",
+    "google-csv": "Google Calendar (.csv), one row per class",
+};
+
 export const ScheduleExporter = () => {
     const [input, setInput] = useState("");
-    const [schedule, setSchedule] = useState<ParsedSchedule | null>(null);
+    // One schedule per term in the paste, the active one is shown and edited
+    const [schedules, setSchedules] = useState<ParsedSchedule[]>([]);
+    const [activeTermIdx, setActiveTermIdx] = useState(0);
+    const [exportAllTerms, setExportAllTerms] = useState(false);
+    const [detectedView, setDetectedView] = useState<ScheduleView | null>(null);
+    // HTML flavour of the last clipboard paste, cleared once the text is edited by hand
+    const [pastedHtml, setPastedHtml] = useState<string | null>(null);
+    const [parsedFromHtml, setParsedFromHtml] = useState(false);
+    const [parseReport, setParseReport] = useState<{
+        input: string;
+        diagnostics: ParseDiagnostic[];
+    } | null>(null);
+    // Kept apart from the schedule's report, the exam paste has its own line numbers
+    const [examReport, setExamReport] = useState<{
+        input: string;
+        diagnostics: ParseDiagnostic[];
+    } | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isParsing, setIsParsing] = useState(false);
     const [summaryTemplate, setSummaryTemplate] = useState(
-        "@code @type in @location",
+        DEFAULT_EXPORT_OPTIONS.summaryTemplate,
     );
     const [descriptionTemplate, setDescriptionTemplate] = useState(
-        "@code-@section: @name (@type) in @location with @prof",
+        DEFAULT_EXPORT_OPTIONS.descriptionTemplate,
     );
+    const [examSummaryTemplate, setExamSummaryTemplate] = useState(
+        DEFAULT_EXPORT_OPTIONS.examSummaryTemplate,
+    );
+    // Extra days without classes, on top of the bundled holidays
+    const [skipDatesInput, setSkipDatesInput] = useState("");
+    const [alarms, setAlarms] = useState<AlarmSettings>(DEFAULT_ALARM_SETTINGS);
+    const [droppedCourses, setDroppedCourses] =
+        useState<DroppedCourseExport>("skip");
+    const [format, setFormat] = useState<ExportFormat>("ics");
+    // Split into one calendar per group, downloaded as a zip
+    const [grouping, setGrouping] = useState<ExportGrouping>("none");
+    const [customGroups, setCustomGroups] = useState<Record<string, string>>(
+        {},
+    );
+    // Text copied from Quest "My Final Exam Schedule"
+    const [examInput, setExamInput] = useState("");
+    // Asked about before downloading: what was skipped or incomplete, and
+    // what was exported as usual but is worth a look (time conflicts)
     const [exportWarnings, setExportWarnings] = useState<
         { id: string; message: string }[]
     >([]);
-    const [pendingExport, setPendingExport] = useState<{
-        content: string;
-        filename: string;
-    } | null>(null);
+    const [exportConflicts, setExportConflicts] = useState<
+        { id: string; message: string }[]
+    >([]);
+    // Classes the last export left out on purpose, shown without asking
+    const [exportNotices, setExportNotices] = useState<string[]>([]);
+    const [pendingExports, setPendingExports] = useState<
+        {
+            content: string | Uint8Array<ArrayBuffer>;
+            filename: string;
+            type: string;
+        }[]
+    >([]);
+
+    // Earlier export or paste of the active term, to show what changed since
+    const [previousInput, setPreviousInput] = useState("");
+    const [previousSnapshot, setPreviousSnapshot] = useState<
+        EventSnapshot[] | null
+    >(null);
 
     const hasInitialized = useRef(false);
+    // Preferences are only saved once the stored ones were loaded, so defaults don't overwrite them
+    const hasLoadedPreferences = useRef(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const previousFileInputRef = useRef<HTMLInputElement>(null);
+
+    const schedule = schedules[activeTermIdx] ?? null;
+
+    const skipDates = parseSkipDates(skipDatesInput);
+    const exportOptions: IcsExportOptions = {
+        summaryTemplate,
+        descriptionTemplate,
+        examSummaryTemplate,
+        skipDates: skipDates.dates,
+        alarms,
+        droppedCourses,
+    };
+    // Everything in the Export Options, as saved between visits and in schedule files
+    const exportPreferences: ExportPreferences = {
+        summaryTemplate,
+        descriptionTemplate,
+        examSummaryTemplate,
+        skipDates: skipDatesInput,
+        alarms,
+        droppedCourses,
+        format,
+        grouping,
+        customGroups,
+    };
+
+    const currentSnapshot =
+        schedule && previousSnapshot
+            ? snapshotSchedule(schedule, exportOptions)
+            : null;
+    const scheduleDiff =
+        currentSnapshot && previousSnapshot
+            ? diffSchedules(previousSnapshot, currentSnapshot)
+            : null;
 
     // Load from URL on mount
+    // biome-ignore lint/correctness/useExhaustiveDependencies: Runs once on load, the setters it calls never change.
     useEffect(() => {
         if (hasInitialized.current) return;
         hasInitialized.current = true;
@@ -36,14 +186,58 @@ export const ScheduleExporter = () => {
             setInput(savedInput);
             // If we have data from URL, parse it immediately
             try {
-                const result = parseSchedule(savedInput);
-                setSchedule(result);
+                const results = parseAnySchedules(savedInput);
+                applyParseResults(results, results[0].view, false, savedInput);
             } catch (err) {
                 console.error("Failed to parse saved schedule:", err);
             }
         }
     }, []);
 
+    // Save Export Options whenever they change. Declared before the restore
+    // effect so the first run, with the defaults, is skipped.
+    // biome-ignore lint/correctness/useExhaustiveDependencies: The object is rebuilt every render, its fields are the dependencies.
+    useEffect(() => {
+        if (!hasLoadedPreferences.current) return;
+        saveExportPreferences(exportPreferences);
+    }, [
+        summaryTemplate,
+        descriptionTemplate,
+        examSummaryTemplate,
+        skipDatesInput,
+        alarms,
+        droppedCourses,
+        format,
+        grouping,
+        customGroups,
+    ]);
+
+    const applyPreferences = (preferences: Partial<ExportPreferences>) => {
+        if (preferences.summaryTemplate !== undefined)
+            setSummaryTemplate(preferences.summaryTemplate);
+        if (preferences.descriptionTemplate !== undefined)
+            setDescriptionTemplate(preferences.descriptionTemplate);
+        if (preferences.examSummaryTemplate !== undefined)
+            setExamSummaryTemplate(preferences.examSummaryTemplate);
+        if (preferences.skipDates !== undefined)
+            setSkipDatesInput(preferences.skipDates);
+        if (preferences.alarms !== undefined) setAlarms(preferences.alarms);
+        if (preferences.droppedCourses !== undefined)
+            setDroppedCourses(preferences.droppedCourses);
+        if (preferences.format !== undefined) setFormat(preferences.format);
+        if (preferences.grouping !== undefined)
+            setGrouping(preferences.grouping);
+        if (preferences.customGroups !== undefined)
+            setCustomGroups(preferences.customGroups);
+    };
+
+    // Restore Export Options from the last visit
+    // biome-ignore lint/correctness/useExhaustiveDependencies: Runs once on load, the setters it calls never change.
+    useEffect(() => {
+        applyPreferences(loadExportPreferences());
+        hasLoadedPreferences.current = true;
+    }, []);
+
     const handleParse = () => {
         if (!input.trim()) {
             setError("Please paste your schedule data first.");
@@ -54,73 +248,330 @@ export const ScheduleExporter = () => {
         setError(null);
 
         try {
-            const result = parseSchedule(input);
-            setSchedule(result);
+            // Prefer the table structure from the clipboard, the text parser is the fallback.
+            // The HTML parser reads a single term, so multi-term pastes use the text.
+            const isSingleTerm = splitTermSections(input).length === 1;
+            const htmlResult =
+                pastedHtml && isSingleTerm ? tryParseHtml(pastedHtml) : null;
+            if (htmlResult) {
+                applyParseResults([htmlResult], "list", true, input);
+            } else {
+                const results = parseAnySchedules(input);
+                applyParseResults(results, results[0].view, false, input);
+            }
             encodeScheduleToUrl(input);
         } catch (err) {
-            console.error(err);
-            setError(
-                err instanceof Error
-                    ? err.message
-                    : "An unknown error occurred",
-            );
-            setSchedule(null);
+            handleParseError(err, input);
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const tryParseHtml = (html: string): ParseResult | null => {
+        try {
+            const result = parseScheduleHtml(html);
+            return result.schedule.courses.length > 0 ? result : null;
+        } catch (err) {
+            console.warn("Falling back to text parser:", err);
+            return null;
+        }
+    };
+
+    const applyParseResults = (
+        results: ParseResult[],
+        view: ScheduleView,
+        fromHtml: boolean,
+        source: string,
+    ) => {
+        setSchedules(results.map((r) => r.schedule));
+        setActiveTermIdx(0);
+        setExportAllTerms(results.length > 1);
+        setDetectedView(view);
+        setParsedFromHtml(fromHtml);
+        setParseReport({
+            input: source,
+            diagnostics: results.flatMap((r) => r.diagnostics),
+        });
+        setExamReport(null);
+        setExportNotices([]);
+    };
+
+    const handleParseError = (err: unknown, source: string) => {
+        console.error(err);
+        setParseReport(
+            err instanceof ParserError
+                ? { input: source, diagnostics: err.diagnostics }
+                : null,
+        );
+        setError(
+            err instanceof Error ? err.message : "An unknown error occurred",
+        );
+        setSchedules([]);
+        setDetectedView(null);
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const html = e.clipboardData.getData("text/html");
+        setPastedHtml(html && isQuestScheduleHtml(html) ? html : null);
+    };
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const inputType = (e.nativeEvent as InputEvent).inputType;
+        if (inputType !== "insertFromPaste") setPastedHtml(null);
+        setInput(e.target.value);
+    };
+
+    /**
+     * Parse a "Save Page As" .html file, an exported .ics calendar or a saved
+     * schedule dropped on or picked for the paste area
+     */
+    const handleFile = async (file: File) => {
+        setIsParsing(true);
+        setError(null);
+
+        try {
+            const text = await file.text();
+            const view = detectScheduleView(text);
+            if (/\.json$/i.test(file.name) || view === "saved") {
+                const { results, preferences } = readScheduleFile(text);
+                applyParseResults(results, "saved", false, "");
+                applyPreferences(preferences);
+            } else if (/\.ics$/i.test(file.name) || view === "ics") {
+                applyParseResults([parseIcsSchedule(text)], "ics", false, "");
+            } else {
+                applyParseResults([parseScheduleHtml(text)], "list", true, "");
+            }
+            setInput("");
+            setPastedHtml(null);
+            // The saved page can't be stored in the URL
+            encodeScheduleToUrl("");
+        } catch (err) {
+            handleParseError(err, "");
         } finally {
             setIsParsing(false);
         }
     };
 
+    const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+        const file = e.dataTransfer.files[0];
+        if (!file) return;
+        e.preventDefault();
+        void handleFile(file);
+    };
+
+    const downloadExport = (file: (typeof pendingExports)[number]) => {
+        downloadFile(file.content, file.filename, file.type);
+    };
+
     const handleExport = () => {
         if (!schedule) return;
 
+        const targets = exportAllTerms ? schedules : [schedule];
+
         try {
-            const { icsContent, warnings } = generateScheduleIcs(
-                schedule,
-                summaryTemplate,
-                descriptionTemplate,
-            );
+            const files: typeof pendingExports = [];
+            const allWarnings: string[] = [];
+            const allConflicts: string[] = [];
+            const allNotices: string[] = [];
 
-            const filename = `schedule_${schedule.term.season.toLocaleLowerCase()}_${schedule.term.year}.ics`;
+            for (const text of skipDates.invalid) {
+                allWarnings.push(
+                    `Ignored "${text}" in extra dates to skip: not a date`,
+                );
+            }
 
-            if (warnings.length > 0) {
-                setExportWarnings(
-                    warnings.map((w, i) => ({
-                        id: `${i}-${Date.now()}`,
-                        message: w,
-                    })),
+            for (const target of targets) {
+                let warnings: string[];
+                let notices: string[];
+                if (format !== "ics") {
+                    const result = generateScheduleCsv(
+                        target,
+                        exportOptions,
+                        format,
+                    );
+                    files.push({
+                        content: result.csvContent,
+                        filename: getScheduleFilename(
+                            target.term,
+                            "csv",
+                            format === "google-csv" ? "google" : undefined,
+                        ),
+                        type: "text/csv",
+                    });
+                    ({ warnings, notices } = result);
+                } else if (grouping === "none") {
+                    const result = generateScheduleIcs(target, exportOptions);
+                    files.push({
+                        content: result.icsContent,
+                        filename: getScheduleFilename(target.term),
+                        type: "text/calendar",
+                    });
+                    ({ warnings, notices } = result);
+                } else {
+                    const result = generateGroupedIcs(
+                        target,
+                        exportOptions,
+                        grouping,
+                        customGroups,
+                    );
+                    files.push({
+                        content: zipCalendarGroups(result.groups),
+                        filename: getScheduleFilename(target.term, "zip"),
+                        type: "application/zip",
+                    });
+                    ({ warnings, notices } = result);
+                }
+                const conflicts = findScheduleConflicts(target).map(
+                    (conflict) => formatConflict(target, conflict),
                 );
-                setPendingExport({ content: icsContent, filename });
+                // Say which term a warning belongs to when exporting several
+                const prefix =
+                    targets.length > 1
+                        ? `${target.term.season} ${target.term.year}: `
+                        : "";
+                allWarnings.push(...warnings.map((w) => `${prefix}${w}`));
+                allConflicts.push(...conflicts.map((c) => `${prefix}${c}`));
+                allNotices.push(...notices.map((n) => `${prefix}${n}`));
+            }
+            setExportNotices(allNotices);
+
+            if (allWarnings.length > 0 || allConflicts.length > 0) {
+                const toItems = (messages: string[]) =>
+                    messages.map((message, i) => ({
+                        id: `${i}-${Date.now()}`,
+                        message,
+                    }));
+                setExportWarnings(toItems(allWarnings));
+                setExportConflicts(toItems(allConflicts));
+                setPendingExports(files);
                 return;
             }
 
-            downloadIcs(icsContent, filename);
+            for (const file of files) {
+                downloadExport(file);
+            }
         } catch (err) {
-            console.error("Failed to generate ICS:", err);
-            setError("Failed to generate calendar file. Please try again.");
+            console.error("Failed to export:", err);
+            setError("Failed to generate the export file. Please try again.");
         }
     };
 
     const confirmExport = () => {
-        if (pendingExport) {
-            downloadIcs(pendingExport.content, pendingExport.filename);
+        for (const file of pendingExports) {
+            downloadExport(file);
         }
         cancelExport();
     };
 
     const cancelExport = () => {
         setExportWarnings([]);
-        setPendingExport(null);
+        setExportConflicts([]);
+        setPendingExports([]);
+    };
+
+    /**
+     * Download the edited schedules and Export Options, to pick up later
+     */
+    const handleSaveFile = () => {
+        if (!schedule) return;
+        downloadFile(
+            writeScheduleFile(schedules, exportPreferences),
+            getScheduleFilename(schedule.term, "json"),
+            "application/json",
+        );
     };
 
     const handleReset = () => {
         setInput("");
-        setSchedule(null);
+        setSchedules([]);
+        setActiveTermIdx(0);
+        setDetectedView(null);
+        setPastedHtml(null);
+        setParsedFromHtml(false);
+        setParseReport(null);
+        setExamReport(null);
+        setExportNotices([]);
+        setExamInput("");
+        setPreviousInput("");
+        setPreviousSnapshot(null);
         setError(null);
         encodeScheduleToUrl("");
     };
 
+    /**
+     * Load an earlier .ics export, or an earlier Quest paste, to compare against
+     */
+    const handleLoadPrevious = (text: string) => {
+        if (!schedule || !text.trim()) return;
+        setError(null);
+
+        try {
+            if (/BEGIN:VCALENDAR/.test(text)) {
+                setPreviousSnapshot(snapshotIcs(text));
+                return;
+            }
+
+            // An earlier paste is parsed like the main one, using the same term if it has several
+            const results = parseAnySchedules(text);
+            const sameTerm = results.find(
+                (r) =>
+                    r.schedule.term.season === schedule.term.season &&
+                    r.schedule.term.year === schedule.term.year,
+            );
+            setPreviousSnapshot(
+                snapshotSchedule(
+                    (sameTerm ?? results[0]).schedule,
+                    exportOptions,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to load previous schedule:", err);
+            setError(
+                `Could not read the previous schedule: ${err instanceof Error ? err.message : String(err)}`,
+            );
+        }
+    };
+
+    const handleDownloadUpdate = () => {
+        if (!schedule || !scheduleDiff || !currentSnapshot || !previousSnapshot)
+            return;
+
+        const { updateContent, cancelContent } = generateUpdateIcs(
+            scheduleDiff,
+            currentSnapshot,
+            previousSnapshot,
+        );
+        downloadIcs(
+            updateContent,
+            getScheduleFilename(schedule.term, "ics", "update"),
+        );
+        if (cancelContent) {
+            downloadIcs(
+                cancelContent,
+                getScheduleFilename(schedule.term, "ics", "cancel"),
+            );
+        }
+        // The calendar now matches the update, later edits are compared against it
+        setPreviousSnapshot(snapshotIcs(updateContent));
+    };
+
+    const handleAddExams = () => {
+        if (!schedule || !examInput.trim()) return;
+
+        const { exams, diagnostics } = parseExamSchedule(examInput);
+        setExamReport(
+            diagnostics.length > 0 ? { input: examInput, diagnostics } : null,
+        );
+        if (exams.length === 0) return;
+
+        handleScheduleChange(mergeExamSchedule(schedule, exams));
+        setExamInput("");
+    };
+
     const handleScheduleChange = (updatedSchedule: ParsedSchedule) => {
-        setSchedule(updatedSchedule);
+        setSchedules((prev) =>
+            prev.map((s, idx) => (idx === activeTermIdx ? updatedSchedule : s)),
+        );
     };
 
     return (
@@ -165,7 +616,9 @@ export const ScheduleExporter = () => {
                                 <strong>Continue</strong>
                             </li>
                             <li>
-                                Ensure you are in <strong>"List View"</strong>
+                                Use either <strong>"List View"</strong> or{" "}
+                                <strong>"Weekly Calendar View"</strong> (List
+                                View includes instructors and exact dates)
                             </li>
                             <li>
                                 Select All (
@@ -200,9 +653,35 @@ export const ScheduleExporter = () => {
                             className="relative w-full h-48 p-4 rounded-xl border-gray-200 bg-white/80 backdrop-blur shadow-sm focus:ring-0 focus:outline-none resize-none font-mono text-xs md:text-sm transition-all"
                             placeholder="Paste your copied Quest schedule here..."
                             value={input}
-                            onChange={(e) => setInput(e.target.value)}
+                            onChange={handleInputChange}
+                            onPaste={handlePaste}
+                            onDrop={handleDrop}
                         />
                     </div>
+                    <p className="text-xs text-gray-500 ml-1">
+                        You can also drop a page saved from Quest with "Save
+                        Page As" (.html), a calendar exported earlier (.ics) or
+                        a saved schedule (.json) onto the box, or{" "}
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className="text-blue-600 hover:underline"
+                        >
+                            choose a file
+                        </button>
+                        .
+                    </p>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".html,.htm,text/html,.ics,text/calendar,.json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) void handleFile(file);
+                            e.target.value = "";
+                        }}
+                    />
 
                     <button
                         type="button"
@@ -266,23 +745,187 @@ export const ScheduleExporter = () => {
 
             {/* Reset button - shown when schedule exists */}
             {schedule && (
-                <div className="flex justify-end">
-                    <button
-                        type="button"
-                        onClick={handleReset}
-                        className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50/70 border border-red-200 rounded-lg hover:bg-red-50 transition-all shadow-sm"
-                    >
-                        🗑️ Reset
-                    </button>
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-gray-600">
+                        {detectedView && (
+                            <>
+                                Recognized{" "}
+                                <strong>
+                                    {SCHEDULE_VIEW_LABELS[detectedView]}
+                                </strong>
+                                {parsedFromHtml && " (read from the page HTML)"}
+                                {detectedView === "weekly" &&
+                                    ". Dates are estimated for the term and instructors are not shown in this view; check them before exporting."}
+                            </>
+                        )}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleSaveFile}
+                            title="Download the schedule with your edits and Export Options, open the file here to continue later"
+                            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white/70 border border-gray-200 rounded-lg hover:bg-white transition-all shadow-sm"
+                        >
+                            💾 Save
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleReset}
+                            className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50/70 border border-red-200 rounded-lg hover:bg-red-50 transition-all shadow-sm"
+                        >
+                            🗑️ Reset
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Parse Diagnostics */}
+            {parseReport && (
+                <ParseDiagnosticsPanel
+                    input={parseReport.input}
+                    diagnostics={parseReport.diagnostics}
+                />
+            )}
+
+            {/* Term Picker - shown when the paste spans several terms */}
+            {schedules.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-600">
+                        {schedules.length} terms found:
+                    </span>
+                    {schedules.map((s, idx) => (
+                        <button
+                            // biome-ignore lint/suspicious/noArrayIndexKey: Terms keep their paste order.
+                            key={idx}
+                            type="button"
+                            onClick={() => {
+                                setActiveTermIdx(idx);
+                                setPreviousSnapshot(null);
+                            }}
+                            className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-all ${
+                                idx === activeTermIdx
+                                    ? "bg-blue-600 text-white border-blue-600 shadow-sm"
+                                    : "bg-white/70 text-gray-700 border-gray-200 hover:bg-gray-50"
+                            }`}
+                        >
+                            {s.term.season} {s.term.year}
+                        </button>
+                    ))}
                 </div>
             )}
 
+            {/* Week at a Glance */}
+            {schedule && (
+                <WeeklyTimetable
+                    schedule={schedule}
+                    skipDates={skipDates.dates}
+                />
+            )}
+
             {/* Editable Results */}
             <EditableCourseTable
                 schedule={schedule}
                 onScheduleChange={handleScheduleChange}
             />
 
+            {/* Final Exams */}
+            {schedule && (
+                <div className="p-6 bg-white/60 backdrop-blur-sm border border-gray-200 rounded-2xl shadow-sm space-y-4">
+                    <h3 className="font-semibold text-gray-900">
+                        Import Final Exams
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                        Paste your Quest "My Final Exam Schedule" to add each
+                        exam as a one-off event. Importing again replaces the
+                        earlier exam times.
+                    </p>
+                    <textarea
+                        aria-label="Final exam schedule"
+                        className="w-full h-32 p-3 rounded-lg border border-gray-200 bg-white/50 font-mono text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all resize-y"
+                        placeholder="Paste your copied final exam schedule here..."
+                        value={examInput}
+                        onChange={(e) => setExamInput(e.target.value)}
+                    />
+                    <button
+                        type="button"
+                        onClick={handleAddExams}
+                        disabled={!examInput.trim()}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95"
+                    >
+                        Add Exams
+                    </button>
+                </div>
+            )}
+
+            {/* Final Exam Diagnostics */}
+            {schedule && examReport && (
+                <ParseDiagnosticsPanel
+                    title="Final Exam Diagnostics"
+                    input={examReport.input}
+                    diagnostics={examReport.diagnostics}
+                />
+            )}
+
+            {/* Compare with a Previous Export */}
+            {schedule && (
+                <div className="p-6 bg-white/60 backdrop-blur-sm border border-gray-200 rounded-2xl shadow-sm space-y-4">
+                    <h3 className="font-semibold text-gray-900">
+                        Compare with Previous Export
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                        Changed sections since your last export? Load the
+                        earlier .ics file, or paste the earlier Quest schedule,
+                        to see what changed and download an update that edits
+                        your calendar in place.
+                    </p>
+                    <textarea
+                        aria-label="Previous schedule"
+                        className="w-full h-32 p-3 rounded-lg border border-gray-200 bg-white/50 font-mono text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all resize-y"
+                        placeholder="Paste your earlier Quest schedule here..."
+                        value={previousInput}
+                        onChange={(e) => setPreviousInput(e.target.value)}
+                    />
+                    <div className="flex flex-wrap gap-3">
+                        <button
+                            type="button"
+                            onClick={() => handleLoadPrevious(previousInput)}
+                            disabled={!previousInput.trim()}
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95"
+                        >
+                            Compare
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() =>
+                                previousFileInputRef.current?.click()
+                            }
+                            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white/70 border border-gray-200 hover:bg-gray-50 rounded-lg transition-colors"
+                        >
+                            Choose .ics File
+                        </button>
+                    </div>
+                    <input
+                        ref={previousFileInputRef}
+                        type="file"
+                        accept=".ics,text/calendar"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) void file.text().then(handleLoadPrevious);
+                            e.target.value = "";
+                        }}
+                    />
+                </div>
+            )}
+
+            {scheduleDiff && (
+                <ScheduleDiffPanel
+                    diff={scheduleDiff}
+                    onDownloadUpdate={handleDownloadUpdate}
+                    onClear={() => setPreviousSnapshot(null)}
+                />
+            )}
+
             {/* Export Actions */}
             {schedule && (
                 <div className="p-6 bg-white/60 backdrop-blur-sm border border-gray-200 rounded-2xl shadow-sm space-y-4">
@@ -290,59 +933,187 @@ export const ScheduleExporter = () => {
                         Export Options
                     </h3>
                     <div className="grid gap-4 md:grid-cols-2">
+                        <TemplateInput
+                            id="summary-template"
+                            label="Summary Template"
+                            value={summaryTemplate}
+                            onChange={setSummaryTemplate}
+                            previewContext={getPreviewContext(schedule, false)}
+                        />
+                        <TemplateInput
+                            id="description-template"
+                            label="Description Template"
+                            value={descriptionTemplate}
+                            onChange={setDescriptionTemplate}
+                            previewContext={getPreviewContext(schedule, false)}
+                        />
+                        <TemplateInput
+                            id="exam-summary-template"
+                            label="Exam Summary Template"
+                            value={examSummaryTemplate}
+                            onChange={setExamSummaryTemplate}
+                            previewContext={getPreviewContext(schedule, true)}
+                        />
                         <div className="space-y-2">
                             <label
-                                htmlFor="summary-template"
-                                className="text-xs font-medium text-gray-500 uppercase"
-                            >
-                                Summary Template
-                            </label>
-                            <input
-                                id="summary-template"
-                                type="text"
-                                className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
-                                value={summaryTemplate}
-                                onChange={(e) =>
-                                    setSummaryTemplate(e.target.value)
-                                }
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <label
-                                htmlFor="description-template"
+                                htmlFor="skip-dates"
                                 className="text-xs font-medium text-gray-500 uppercase"
                             >
-                                Description Template
+                                Extra Dates to Skip
                             </label>
                             <input
-                                id="description-template"
+                                id="skip-dates"
                                 type="text"
                                 className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
-                                value={descriptionTemplate}
+                                placeholder="2026-03-13, 2026-03-20"
+                                value={skipDatesInput}
                                 onChange={(e) =>
-                                    setDescriptionTemplate(e.target.value)
+                                    setSkipDatesInput(e.target.value)
                                 }
                             />
                         </div>
                     </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={droppedCourses === "cancelled"}
+                            onChange={(e) =>
+                                setDroppedCourses(
+                                    e.target.checked ? "cancelled" : "skip",
+                                )
+                            }
+                        />
+                        Export dropped courses as cancelled events, to remove
+                        them from calendars that still have them
+                    </label>
+                    <AlarmSettingsEditor
+                        alarms={alarms}
+                        courseCodes={schedule.courses.map((c) => c.courseCode)}
+                        onChange={setAlarms}
+                    />
+                    <div className="space-y-2">
+                        <label
+                            htmlFor="export-format"
+                            className="text-xs font-medium text-gray-500 uppercase"
+                        >
+                            File Format
+                        </label>
+                        <select
+                            id="export-format"
+                            className="w-full md:w-auto px-3 py-2 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                            value={format}
+                            onChange={(e) =>
+                                setFormat(e.target.value as ExportFormat)
+                            }
+                        >
+                            {(
+                                Object.keys(
+                                    EXPORT_FORMAT_LABELS,
+                                ) as ExportFormat[]
+                            ).map((key) => (
+                                <option key={key} value={key}>
+                                    {EXPORT_FORMAT_LABELS[key]}
+                                </option>
+                            ))}
+                        </select>
+                        {format === "google-csv" && (
+                            <p className="text-xs text-gray-400">
+                                Google Calendar reads the times in your
+                                calendar's time zone, set it to Eastern Time
+                                before importing.
+                            </p>
+                        )}
+                    </div>
+                    {format === "ics" && (
+                        <ExportGroupingEditor
+                            grouping={grouping}
+                            customGroups={customGroups}
+                            groupKeys={listCustomGroupKeys(schedule)}
+                            onGroupingChange={setGrouping}
+                            onCustomGroupsChange={setCustomGroups}
+                        />
+                    )}
+                    <FeedPublisher
+                        schedules={schedules}
+                        preferences={exportPreferences}
+                    />
+                    {schedules.length > 1 && (
+                        <fieldset className="flex flex-wrap gap-4 text-sm text-gray-700">
+                            <legend className="sr-only">Terms to export</legend>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="radio"
+                                    name="export-terms"
+                                    checked={!exportAllTerms}
+                                    onChange={() => setExportAllTerms(false)}
+                                />
+                                Only {schedule.term.season} {schedule.term.year}
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="radio"
+                                    name="export-terms"
+                                    checked={exportAllTerms}
+                                    onChange={() => setExportAllTerms(true)}
+                                />
+                                All {schedules.length} terms (one file each)
+                            </label>
+                        </fieldset>
+                    )}
                     <div className="pt-2">
                         <button
                             type="button"
                             onClick={handleExport}
                             className="px-6 py-2.5 bg-gray-900 hover:bg-black text-white text-sm font-medium rounded-lg shadow-lg shadow-gray-200 hover:shadow-xl transition-all active:scale-95"
                         >
-                            Export iCalendar (.ics)
+                            {format !== "ics"
+                                ? "Export Spreadsheet (.csv)"
+                                : grouping === "none"
+                                  ? "Export iCalendar (.ics)"
+                                  : "Export Calendars (.zip)"}
                         </button>
                     </div>
+                    {exportNotices.length > 0 && (
+                        <details className="rounded-lg border border-blue-100 bg-blue-50/70 p-3 text-sm text-blue-900">
+                            <summary className="cursor-pointer font-medium">
+                                Left out on purpose ({exportNotices.length})
+                            </summary>
+                            <ul className="mt-2 list-disc list-inside space-y-1">
+                                {exportNotices.map((notice) => (
+                                    <li key={notice}>{notice}</li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                    <p className="text-xs text-gray-400">
+                        Fields:{" "}
+                        {Object.entries(TEMPLATE_FIELDS)
+                            .map(
+                                ([name, field]) =>
+                                    `@${name} (${field.description})`,
+                            )
+                            .join(", ")}
+                        . Filters:{" "}
+                        {Object.entries(TEMPLATE_FILTERS)
+                            .map(
+                                ([name, filter]) =>
+                                    `|${name} (${filter.description})`,
+                            )
+                            .join(", ")}
+                        . Wrap text in [ ] to leave it out when a field in it is
+                        empty, e.g. "@code[ with @instructor]". Write \@, \[ or
+                        \] for the character itself, e.g. "me\@uwaterloo.ca".
+                    </p>
                     <p className="text-xs text-gray-400">
-                        Possible placeholders: @code, @section, @name, @type,
-                        @location, @prof
+                        Statutory holidays and reading week are left out of
+                        recurring classes automatically. Waitlisted courses are
+                        exported as tentative.
                     </p>
                 </div>
             )}
 
             {/* Warning Dialog */}
-            {exportWarnings.length > 0 && (
+            {(exportWarnings.length > 0 || exportConflicts.length > 0) && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/20 backdrop-blur-xs">
                     <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full overflow-hidden animate-in fade-in zoom-in-95 duration-200">
                         <div className="p-6 space-y-4">
@@ -363,27 +1134,60 @@ export const ScheduleExporter = () => {
                                 </svg>
                                 <div>
                                     <h3 className="text-lg font-semibold text-gray-900 leading-6">
-                                        Export Warnings
+                                        Check Before Exporting
                                     </h3>
                                     <p className="text-sm text-gray-500 mt-1">
-                                        Some sessions cannot be exported because
-                                        they have missing or invalid data.
+                                        Review these notes on your schedule
+                                        before downloading.
                                     </p>
                                 </div>
                             </div>
 
-                            <div className="bg-amber-50 rounded-lg p-3 max-h-60 overflow-y-auto border border-amber-100">
-                                <ul className="list-disc list-inside space-y-1 text-sm text-amber-900">
-                                    {exportWarnings.map((warning) => (
-                                        <li key={warning.id}>
-                                            {warning.message}
-                                        </li>
-                                    ))}
-                                </ul>
-                            </div>
+                            {exportWarnings.length > 0 && (
+                                <div className="space-y-2">
+                                    <h4 className="text-sm font-medium text-gray-900">
+                                        Skipped or incomplete
+                                    </h4>
+                                    <p className="text-sm text-gray-500">
+                                        Missing or invalid data kept these out
+                                        of the export, or left out some of their
+                                        details.
+                                    </p>
+                                    <div className="bg-amber-50 rounded-lg p-3 max-h-48 overflow-y-auto border border-amber-100">
+                                        <ul className="list-disc list-inside space-y-1 text-sm text-amber-900">
+                                            {exportWarnings.map((warning) => (
+                                                <li key={warning.id}>
+                                                    {warning.message}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
+
+                            {exportConflicts.length > 0 && (
+                                <div className="space-y-2">
+                                    <h4 className="text-sm font-medium text-gray-900">
+                                        Exported as usual
+                                    </h4>
+                                    <p className="text-sm text-gray-500">
+                                        These classes overlap. Both are in the
+                                        export, check that this is expected.
+                                    </p>
+                                    <div className="bg-blue-50 rounded-lg p-3 max-h-48 overflow-y-auto border border-blue-100">
+                                        <ul className="list-disc list-inside space-y-1 text-sm text-blue-900">
+                                            {exportConflicts.map((conflict) => (
+                                                <li key={conflict.id}>
+                                                    {conflict.message}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
 
                             <p className="text-sm text-gray-600">
-                                Do you want to proceed with the export anyway?
+                                Do you want to download the export as it is?
                             </p>
                         </div>
                         <div className="bg-gray-50 px-6 py-4 flex gap-3 justify-end border-t border-gray-100">
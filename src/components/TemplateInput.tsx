@@ -0,0 +1,124 @@
+import type React from "react";
+import { useMemo } from "react";
+import {
+    parseTemplate,
+    renderTemplate,
+    type TemplateContext,
+    type TemplateError,
+} from "@/lib/template";
+
+interface TemplateInputProps {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    /** Meeting to preview the template with, no preview if null */
+    previewContext: TemplateContext | null;
+}
+
+/**
+ * Splits the template into plain and erroneous parts for highlighting
+ */
+function getHighlightedParts(
+    template: string,
+    errors: TemplateError[],
+): { text: string; error?: string }[] {
+    const parts: { text: string; error?: string }[] = [];
+    let position = 0;
+    for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+        if (error.start < position) continue;
+        if (error.start > position) {
+            parts.push({ text: template.slice(position, error.start) });
+        }
+        parts.push({
+            text: template.slice(error.start, error.end),
+            error: error.message,
+        });
+        position = error.end;
+    }
+    if (position < template.length) {
+        parts.push({ text: template.slice(position) });
+    }
+    return parts;
+}
+
+/**
+ * Template text field with its errors highlighted and a preview of the result.
+ */
+export const TemplateInput: React.FC<TemplateInputProps> = ({
+    id,
+    label,
+    value,
+    onChange,
+    previewContext,
+}) => {
+    const parsed = useMemo(() => parseTemplate(value), [value]);
+    const hasErrors = parsed.errors.length > 0;
+
+    return (
+        <div className="space-y-2">
+            <label
+                htmlFor={id}
+                className="text-xs font-medium text-gray-500 uppercase"
+            >
+                {label}
+            </label>
+            <input
+                id={id}
+                type="text"
+                className={`w-full px-3 py-2 rounded-lg border bg-white/50 text-sm focus:ring-2 outline-none transition-all ${
+                    hasErrors
+                        ? "border-red-300 focus:ring-red-500/20 focus:border-red-500"
+                        : "border-gray-200 focus:ring-blue-500/20 focus:border-blue-500"
+                }`}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                aria-invalid={hasErrors}
+                aria-describedby={`${id}-preview`}
+            />
+            <div id={`${id}-preview`} className="space-y-1 text-xs">
+                {hasErrors && (
+                    <>
+                        <p className="font-mono text-gray-600 break-all">
+                            {getHighlightedParts(value, parsed.errors).map(
+                                (part, idx) =>
+                                    part.error ? (
+                                        <mark
+                                            // biome-ignore lint/suspicious/noArrayIndexKey: Parts are not reordered.
+                                            key={idx}
+                                            title={part.error}
+                                            className="bg-red-100 text-red-700 underline decoration-wavy decoration-red-500 rounded-sm"
+                                        >
+                                            {part.text}
+                                        </mark>
+                                    ) : (
+                                        // biome-ignore lint/suspicious/noArrayIndexKey: Parts are not reordered.
+                                        <span key={idx}>{part.text}</span>
+                                    ),
+                            )}
+                        </p>
+                        <ul className="text-red-600">
+                            {parsed.errors.map((error) => (
+                                <li key={`${error.start}-${error.message}`}>
+                                    {error.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+                {previewContext && (
+                    <p className="text-gray-500 truncate">
+                        Preview:{" "}
+                        <span className="text-gray-800">
+                            {renderTemplate(parsed, previewContext) || (
+                                <span className="italic text-gray-400">
+                                    empty
+                                </span>
+                            )}
+                        </span>
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
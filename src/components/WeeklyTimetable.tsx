@@ -0,0 +1,268 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+import type { MeetingRef } from "@/lib/conflicts";
+import { getCourseColor } from "@/lib/courseColors";
+import type { ParsedSchedule } from "@/lib/schema";
+import { toDateKey } from "@/lib/termCalendar";
+import {
+    getMeetingRowId,
+    getScheduleWeeks,
+    getTimetableHours,
+    getTimetableWeek,
+    getWeekStart,
+} from "@/lib/timetable";
+
+interface WeeklyTimetableProps {
+    schedule: ParsedSchedule;
+    /** Extra days without classes from the Export Options */
+    skipDates: Date[];
+}
+
+/** Height of one hour of the grid */
+const HOUR_HEIGHT_REM = 3;
+
+const formatTime = (minutes: number): string => {
+    const date = new Date();
+    date.setHours(Math.floor(minutes / 60), minutes % 60);
+    return date.toLocaleTimeString(undefined, {
+        hour: "numeric",
+        minute: "2-digit",
+    });
+};
+
+const formatDay = (date: Date, options: Intl.DateTimeFormatOptions): string =>
+    date.toLocaleDateString(undefined, options);
+
+/**
+ * Week to open on: this week during the term, otherwise the first week
+ */
+const getInitialWeek = (weeks: Date[]): number =>
+    Math.max(
+        0,
+        weeks.findIndex(
+            (week) => toDateKey(week) === toDateKey(getWeekStart(new Date())),
+        ),
+    );
+
+/**
+ * Scrolls the course table to a meeting's row and focuses its first editable cell
+ */
+const focusMeetingRow = (ref: MeetingRef) => {
+    const row = document.getElementById(getMeetingRowId(ref));
+    if (!row) return;
+    row.scrollIntoView({ behavior: "smooth", block: "center" });
+    row.querySelector<HTMLElement>("button")?.focus({ preventScroll: true });
+};
+
+/**
+ * One week of the schedule as a Monday to Sunday grid, with a block per class
+ * in its course colour. Clicking a block jumps to its row in the course table.
+ */
+export const WeeklyTimetable: React.FC<WeeklyTimetableProps> = ({
+    schedule,
+    skipDates,
+}) => {
+    const weeks = getScheduleWeeks(schedule);
+    const [selectedWeek, setSelectedWeek] = useState(() =>
+        getInitialWeek(weeks),
+    );
+    // Another term or other dates start over from the initial week
+    const weeksKey = weeks.map(toDateKey).join(",");
+    // biome-ignore lint/correctness/useExhaustiveDependencies: The key stands for the weeks.
+    useEffect(() => {
+        setSelectedWeek(getInitialWeek(weeks));
+    }, [weeksKey]);
+    if (weeks.length === 0) return null;
+
+    // Editing dates can shorten the term under the selection
+    const weekIdx = Math.min(selectedWeek, weeks.length - 1);
+    const { days, blocks } = getTimetableWeek(
+        schedule,
+        weeks[weekIdx],
+        skipDates,
+    );
+    const hours = getTimetableHours(schedule);
+    const totalMinutes = hours.end - hours.start;
+    const hourMarks = Array.from(
+        { length: totalMinutes / 60 + 1 },
+        (_, i) => hours.start + i * 60,
+    );
+
+    const buttonClass =
+        "px-2 py-1 text-sm text-gray-600 bg-white/70 border border-gray-200 rounded-lg hover:bg-white disabled:opacity-40 disabled:cursor-not-allowed transition-all";
+
+    return (
+        <div className="bg-white/70 backdrop-blur-md rounded-xl border border-white/40 shadow-sm p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <h3 className="font-semibold text-gray-900">Weekly View</h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        className={buttonClass}
+                        aria-label="Previous week"
+                        disabled={weekIdx === 0}
+                        onClick={() => setSelectedWeek(weekIdx - 1)}
+                    >
+                        ←
+                    </button>
+                    <select
+                        aria-label="Week"
+                        className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white/50 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                        value={weekIdx}
+                        onChange={(e) =>
+                            setSelectedWeek(Number(e.target.value))
+                        }
+                    >
+                        {weeks.map((week, idx) => {
+                            const sunday = new Date(week);
+                            sunday.setDate(sunday.getDate() + 6);
+                            const range: Intl.DateTimeFormatOptions = {
+                                month: "short",
+                                day: "numeric",
+                            };
+                            return (
+                                <option key={toDateKey(week)} value={idx}>
+                                    Week {idx + 1}: {formatDay(week, range)} –{" "}
+                                    {formatDay(sunday, range)}
+                                </option>
+                            );
+                        })}
+                    </select>
+                    <button
+                        type="button"
+                        className={buttonClass}
+                        aria-label="Next week"
+                        disabled={weekIdx === weeks.length - 1}
+                        onClick={() => setSelectedWeek(weekIdx + 1)}
+                    >
+                        →
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <div
+                    className="grid min-w-[640px]"
+                    style={{
+                        gridTemplateColumns: "3.5rem repeat(7, minmax(0, 1fr))",
+                    }}
+                >
+                    {/* Day headers */}
+                    <div />
+                    {days.map((day) => (
+                        <div
+                            key={toDateKey(day.date)}
+                            className="px-1 pb-2 text-center text-xs"
+                        >
+                            <div className="font-medium text-gray-700">
+                                {formatDay(day.date, { weekday: "short" })}
+                            </div>
+                            <div className="text-gray-400">
+                                {formatDay(day.date, {
+                                    month: "short",
+                                    day: "numeric",
+                                })}
+                            </div>
+                            {day.closure && (
+                                <div className="truncate text-amber-700">
+                                    {day.closure}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+
+                    {/* Hour labels */}
+                    <div
+                        className="relative"
+                        style={{
+                            height: `${(totalMinutes / 60) * HOUR_HEIGHT_REM}rem`,
+                        }}
+                    >
+                        {hourMarks.slice(0, -1).map((minutes) => (
+                            <div
+                                key={minutes}
+                                className="absolute right-2 -translate-y-1/2 text-xs text-gray-400"
+                                style={{
+                                    top: `${((minutes - hours.start) / totalMinutes) * 100}%`,
+                                }}
+                            >
+                                {formatTime(minutes)}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Day columns */}
+                    {days.map((day, dayIdx) => (
+                        <div
+                            key={toDateKey(day.date)}
+                            className={`relative border-l border-gray-100 ${day.closure ? "bg-amber-50/50" : ""}`}
+                        >
+                            {hourMarks.map((minutes) => (
+                                <div
+                                    key={minutes}
+                                    className="absolute inset-x-0 border-t border-gray-100"
+                                    style={{
+                                        top: `${((minutes - hours.start) / totalMinutes) * 100}%`,
+                                    }}
+                                />
+                            ))}
+                            {blocks
+                                .filter((block) => block.day === dayIdx)
+                                .map((block) => {
+                                    const course =
+                                        schedule.courses[block.ref.courseIdx];
+                                    const session =
+                                        course.sessions[block.ref.sessionIdx];
+                                    const meeting =
+                                        session.meetings[block.ref.meetingIdx];
+                                    const { hex } = getCourseColor(
+                                        course,
+                                        block.ref.courseIdx,
+                                    );
+                                    const time = `${formatTime(block.start)} - ${formatTime(block.end)}`;
+                                    return (
+                                        <button
+                                            key={`${block.ref.courseIdx}-${block.ref.sessionIdx}-${block.ref.meetingIdx}`}
+                                            type="button"
+                                            onClick={() =>
+                                                focusMeetingRow(block.ref)
+                                            }
+                                            title={`${course.courseCode} ${session.exam ? "final exam" : `${session.component} ${session.section}`}, ${time}${meeting.room ? ` in ${meeting.room}` : ""}${course.status === "Waitlisted" ? " (waitlisted)" : ""}`}
+                                            className={`absolute overflow-hidden rounded-md border border-l-4 px-1.5 py-0.5 text-left text-xs leading-tight hover:z-10 hover:shadow-md transition-shadow ${course.status === "Waitlisted" ? "border-dashed" : ""}`}
+                                            style={{
+                                                top: `${((block.start - hours.start) / totalMinutes) * 100}%`,
+                                                // Times past midnight or malformed would give a negative height
+                                                height: `${(Math.max(0, block.end - block.start) / totalMinutes) * 100}%`,
+                                                left: `${(block.lane / block.lanes) * 100}%`,
+                                                width: `${100 / block.lanes}%`,
+                                                color: hex,
+                                                backgroundColor: `${hex}1a`,
+                                                borderColor: `${hex}40`,
+                                                borderLeftColor: hex,
+                                            }}
+                                        >
+                                            <div className="font-semibold truncate">
+                                                {course.courseCode}{" "}
+                                                {session.exam
+                                                    ? "Exam"
+                                                    : session.component}
+                                            </div>
+                                            <div className="truncate opacity-80">
+                                                {meeting.room}
+                                            </div>
+                                        </button>
+                                    );
+                                })}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {blocks.length === 0 && (
+                <p className="text-sm text-gray-500 text-center">
+                    No classes this week.
+                </p>
+            )}
+        </div>
+    );
+};
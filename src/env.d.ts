@@ -3,3 +3,10 @@ type Runtime = import("@astrojs/cloudflare").Runtime<Env>;
 declare namespace App {
     interface Locals extends Runtime {}
 }
+
+// Calendar feeds, bound only where a KV namespace was set up (see README)
+declare namespace Cloudflare {
+    interface Env {
+        SCHEDULE_FEEDS?: KVNamespace;
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * HTTP API
+ * Request and response shapes of the server endpoints, with the helpers they
+ * share for reading requests and answering errors
+ */
+
+import { z } from "zod";
+import { ParserError } from "./parser";
+import { ParsedScheduleFileSchema } from "./scheduleFile";
+import {
+    ExportFormatSchema,
+    ExportPreferencesSchema,
+    type ParseDiagnostic,
+    ParseDiagnosticSchema,
+    ScheduleViewSchema,
+} from "./schema";
+
+/** Largest request body the endpoints accept */
+const MAX_REQUEST_BYTES = 512 * 1024;
+
+/**
+ * A request that can't be served, with the HTTP status to answer with
+ */
+export class ApiError extends Error {
+    readonly status: number;
+    readonly diagnostics: ParseDiagnostic[];
+
+    constructor(
+        message: string,
+        status: number,
+        diagnostics: ParseDiagnostic[] = [],
+    ) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * POST /api/parse: text copied from Quest, a saved schedule file or an .ics calendar
+ */
+export const ParseRequestSchema = z.object({
+    input: z.string().min(1),
+});
+
+/**
+ * One schedule per term in the input, meeting dates as "YYYY-MM-DD"
+ */
+export const ParseResponseSchema = z.object({
+    results: z.array(
+        z.object({
+            view: ScheduleViewSchema,
+            schedule: ParsedScheduleFileSchema,
+            diagnostics: z.array(ParseDiagnosticSchema),
+        }),
+    ),
+});
+
+/**
+ * POST /api/export: a schedule from /api/parse, or Quest text with a single term.
+ * The response body is the file, its warnings and notices are in the
+ * X-Export-Warnings and X-Export-Notices headers.
+ */
+export const ExportRequestSchema = z
+    .object({
+        schedule: ParsedScheduleFileSchema.optional(),
+        input: z.string().min(1).optional(),
+        format: ExportFormatSchema.default("ics"),
+        options: ExportPreferencesSchema.pick({
+            summaryTemplate: true,
+            descriptionTemplate: true,
+            examSummaryTemplate: true,
+            skipDates: true,
+            alarms: true,
+            droppedCourses: true,
+        })
+            .partial()
+            .default({}),
+    })
+    .refine((r) => (r.schedule === undefined) !== (r.input === undefined), {
+        message: "Send either a schedule or an input, not both",
+    });
+
+/**
+ * Body of every 4xx and 5xx response
+ */
+export const ApiErrorResponseSchema = z.object({
+    error: z.string(),
+    diagnostics: z.array(ParseDiagnosticSchema).optional(),
+});
+
+/**
+ * JSON Schema of the request and response bodies, as sent over the wire
+ */
+export function getApiJsonSchema(): Record<string, unknown> {
+    const toJsonSchema = (schema: z.ZodType) =>
+        z.toJSONSchema(schema, { io: "input", unrepresentable: "any" });
+    return {
+        parseRequest: toJsonSchema(ParseRequestSchema),
+        parseResponse: toJsonSchema(ParseResponseSchema),
+        exportRequest: toJsonSchema(ExportRequestSchema),
+        errorResponse: toJsonSchema(ApiErrorResponseSchema),
+    };
+}
+
+/**
+ * Reads a request body as text
+ * @throws ApiError if the body is too large
+ */
+export async function readRequestText(request: Request): Promise<string> {
+    const tooLarge = () => new ApiError("The request body is too large", 413);
+    const length = Number(request.headers.get("Content-Length") ?? 0);
+    if (length > MAX_REQUEST_BYTES) throw tooLarge();
+
+    const text = await request.text();
+    if (new TextEncoder().encode(text).length > MAX_REQUEST_BYTES) {
+        throw tooLarge();
+    }
+    return text;
+}
+
+/**
+ * Reads and validates a JSON request body, decoding dates
+ * @throws ApiError if the body is not JSON or does not match the schema
+ */
+export async function readJsonRequest<T extends z.ZodType>(
+    request: Request,
+    schema: T,
+): Promise<z.output<T>> {
+    let json: unknown;
+    try {
+        json = JSON.parse(await readRequestText(request));
+    } catch (err) {
+        if (err instanceof ApiError) throw err;
+        throw new ApiError("The request body is not valid JSON", 400);
+    }
+
+    const result = schema.safeParse(json);
+    if (!result.success) {
+        throw new ApiError(
+            "The request is invalid",
+            400,
+            result.error.issues.map((issue) => ({
+                severity: "error",
+                code: "invalid-request",
+                message: `${issue.path.join(".") || "body"}: ${issue.message}`,
+            })),
+        );
+    }
+    return result.data;
+}
+
+/**
+ * JSON error response for a failed request. Parser errors are the client's
+ * input, so they answer 422 with the parser's diagnostics.
+ */
+export function apiErrorResponse(err: unknown): Response {
+    const body = (
+        error: string,
+        diagnostics?: ParseDiagnostic[],
+    ): z.input<typeof ApiErrorResponseSchema> =>
+        diagnostics?.length ? { error, diagnostics } : { error };
+
+    if (err instanceof ApiError) {
+        return Response.json(body(err.message, err.diagnostics), {
+            status: err.status,
+        });
+    }
+    if (err instanceof ParserError) {
+        return Response.json(body(err.message, err.diagnostics), {
+            status: 422,
+        });
+    }
+    console.error("API request failed:", err);
+    return Response.json(body("Internal error"), { status: 500 });
+}
@@ -0,0 +1,78 @@
+import { parseIcsSchedule } from "./icsImport";
+import {
+    type ParseResult,
+    ParserError,
+    parseSchedule,
+    splitTermSections,
+} from "./parser";
+import { isScheduleFile, readScheduleFile } from "./scheduleFile";
+import type { ScheduleView } from "./schema";
+import { isWeeklyCalendarView, parseWeeklySchedule } from "./weeklyViewParser";
+
+export const SCHEDULE_VIEW_LABELS: Record<ScheduleView, string> = {
+    list: "Quest List View",
+    weekly: "Quest Weekly Calendar View",
+    ics: "iCalendar File",
+    saved: "Saved Schedule File",
+};
+
+/**
+ * Works out which Quest view the pasted text was copied from.
+ * @returns The detected view, or null if the text matches neither
+ */
+export function detectScheduleView(input: string): ScheduleView | null {
+    if (/^\s*BEGIN:VCALENDAR/.test(input)) return "ics";
+    if (isScheduleFile(input)) return "saved";
+    if (/Class Nbr\s+Section\s+Component/.test(input)) return "list";
+    if (isWeeklyCalendarView(input)) return "weekly";
+    return null;
+}
+
+/**
+ * Detects the view of the pasted text and runs the matching parser.
+ * @param input Raw text string from Quest
+ * @returns The detected view, the parsed schedule and its diagnostics
+ * @throws ParserError if the view is unrecognized or parsing fails
+ */
+export function parseAnySchedule(
+    input: string,
+): ParseResult & { view: ScheduleView } {
+    const view = detectScheduleView(input);
+    switch (view) {
+        case "list":
+            return { view, ...parseSchedule(input) };
+        case "weekly":
+            return { view, ...parseWeeklySchedule(input) };
+        case "ics":
+            return { view, ...parseIcsSchedule(input) };
+        case "saved":
+            // Files can hold several terms, this only reads the first
+            return { view, ...readScheduleFile(input).results[0] };
+        default: {
+            const message =
+                "Could not recognize the schedule layout. Copy the page from Quest's List View or Weekly Calendar View.";
+            throw new ParserError(message, [
+                { severity: "error", code: "unrecognized-view", message },
+            ]);
+        }
+    }
+}
+
+/**
+ * Parses a paste that may span several terms, one schedule per term header.
+ * Each term is detected and parsed on its own, so diagnostics stay with their term.
+ * A calendar file is parsed as one schedule, a saved file as the terms it holds.
+ * @param input Raw text string from Quest
+ * @returns One result per term, in the order they appear
+ * @throws ParserError if any term fails to parse
+ */
+export function parseAnySchedules(
+    input: string,
+): (ParseResult & { view: ScheduleView })[] {
+    const view = detectScheduleView(input);
+    if (view === "ics") return [parseAnySchedule(input)];
+    if (view === "saved") {
+        return readScheduleFile(input).results.map((r) => ({ view, ...r }));
+    }
+    return splitTermSections(input).map((section) => parseAnySchedule(section));
+}
@@ -0,0 +1,356 @@
+/**
+ * UW building directory, used to turn Quest room codes ("MC 2065") into
+ * something map apps can find. Coordinates are the middle of each building,
+ * rounded to four decimals (about 10 m).
+ */
+
+export interface Building {
+    code: string;
+    name: string;
+    address: string;
+    latitude: number;
+    longitude: number;
+}
+
+const MAIN_CAMPUS = "200 University Ave W, Waterloo, ON N2L 3G1";
+
+export const UW_BUILDINGS: Building[] = [
+    {
+        code: "AL",
+        name: "Arts Lecture Hall",
+        address: MAIN_CAMPUS,
+        latitude: 43.469,
+        longitude: -80.5421,
+    },
+    {
+        code: "ARC",
+        name: "School of Architecture",
+        address: "7 Melville St S, Cambridge, ON N1S 2H4",
+        latitude: 43.3577,
+        longitude: -80.3161,
+    },
+    {
+        code: "B1",
+        name: "Biology 1",
+        address: MAIN_CAMPUS,
+        latitude: 43.4702,
+        longitude: -80.5445,
+    },
+    {
+        code: "B2",
+        name: "Biology 2",
+        address: MAIN_CAMPUS,
+        latitude: 43.4704,
+        longitude: -80.5452,
+    },
+    {
+        code: "BMH",
+        name: "B.C. Matthews Hall",
+        address: MAIN_CAMPUS,
+        latitude: 43.4731,
+        longitude: -80.5457,
+    },
+    {
+        code: "C2",
+        name: "Chemistry 2",
+        address: MAIN_CAMPUS,
+        latitude: 43.4708,
+        longitude: -80.5448,
+    },
+    {
+        code: "CGR",
+        name: "Conrad Grebel University College",
+        address: "140 Westmount Rd N, Waterloo, ON N2L 3G6",
+        latitude: 43.4696,
+        longitude: -80.548,
+    },
+    {
+        code: "CIF",
+        name: "Columbia Icefield",
+        address: "200 Columbia St W, Waterloo, ON N2L 3G1",
+        latitude: 43.4786,
+        longitude: -80.5508,
+    },
+    {
+        code: "CPH",
+        name: "Carl A. Pollock Hall",
+        address: MAIN_CAMPUS,
+        latitude: 43.4705,
+        longitude: -80.5397,
+    },
+    {
+        code: "DC",
+        name: "William G. Davis Computer Research Centre",
+        address: MAIN_CAMPUS,
+        latitude: 43.4723,
+        longitude: -80.542,
+    },
+    {
+        code: "DP",
+        name: "Dana Porter Library",
+        address: MAIN_CAMPUS,
+        latitude: 43.4697,
+        longitude: -80.5424,
+    },
+    {
+        code: "DWE",
+        name: "Douglas Wright Engineering Building",
+        address: MAIN_CAMPUS,
+        latitude: 43.47,
+        longitude: -80.5394,
+    },
+    {
+        code: "E2",
+        name: "Engineering 2",
+        address: MAIN_CAMPUS,
+        latitude: 43.4709,
+        longitude: -80.5403,
+    },
+    {
+        code: "E3",
+        name: "Engineering 3",
+        address: MAIN_CAMPUS,
+        latitude: 43.4725,
+        longitude: -80.5397,
+    },
+    {
+        code: "E5",
+        name: "Engineering 5",
+        address: MAIN_CAMPUS,
+        latitude: 43.4731,
+        longitude: -80.5401,
+    },
+    {
+        code: "E6",
+        name: "Engineering 6",
+        address: MAIN_CAMPUS,
+        latitude: 43.4735,
+        longitude: -80.5395,
+    },
+    {
+        code: "E7",
+        name: "Engineering 7",
+        address: MAIN_CAMPUS,
+        latitude: 43.4729,
+        longitude: -80.5395,
+    },
+    {
+        code: "EIT",
+        name: "Centre for Environmental and Information Technology",
+        address: MAIN_CAMPUS,
+        latitude: 43.4717,
+        longitude: -80.5421,
+    },
+    {
+        code: "ESC",
+        name: "Earth Sciences and Chemistry",
+        address: MAIN_CAMPUS,
+        latitude: 43.4713,
+        longitude: -80.545,
+    },
+    {
+        code: "EV1",
+        name: "Environment 1",
+        address: MAIN_CAMPUS,
+        latitude: 43.4684,
+        longitude: -80.5428,
+    },
+    {
+        code: "EV2",
+        name: "Environment 2",
+        address: MAIN_CAMPUS,
+        latitude: 43.468,
+        longitude: -80.5428,
+    },
+    {
+        code: "EV3",
+        name: "Environment 3",
+        address: MAIN_CAMPUS,
+        latitude: 43.4682,
+        longitude: -80.544,
+    },
+    {
+        code: "HH",
+        name: "J.G. Hagey Hall of the Humanities",
+        address: MAIN_CAMPUS,
+        latitude: 43.4685,
+        longitude: -80.5412,
+    },
+    {
+        code: "M3",
+        name: "Mathematics 3",
+        address: MAIN_CAMPUS,
+        latitude: 43.4731,
+        longitude: -80.5443,
+    },
+    {
+        code: "MC",
+        name: "Mathematics and Computer Building",
+        address: MAIN_CAMPUS,
+        latitude: 43.472,
+        longitude: -80.544,
+    },
+    {
+        code: "ML",
+        name: "Modern Languages",
+        address: MAIN_CAMPUS,
+        latitude: 43.469,
+        longitude: -80.5434,
+    },
+    {
+        code: "NH",
+        name: "Needles Hall",
+        address: MAIN_CAMPUS,
+        latitude: 43.4698,
+        longitude: -80.5418,
+    },
+    {
+        code: "OPT",
+        name: "School of Optometry and Vision Science",
+        address: MAIN_CAMPUS,
+        latitude: 43.4762,
+        longitude: -80.5458,
+    },
+    {
+        code: "PAC",
+        name: "Physical Activities Complex",
+        address: MAIN_CAMPUS,
+        latitude: 43.4722,
+        longitude: -80.546,
+    },
+    {
+        code: "PAS",
+        name: "Psychology, Anthropology, Sociology",
+        address: MAIN_CAMPUS,
+        latitude: 43.4675,
+        longitude: -80.5425,
+    },
+    {
+        code: "PHR",
+        name: "School of Pharmacy",
+        address: "10A Victoria St S, Kitchener, ON N2G 1C5",
+        latitude: 43.4516,
+        longitude: -80.4986,
+    },
+    {
+        code: "PHY",
+        name: "Physics",
+        address: MAIN_CAMPUS,
+        latitude: 43.4706,
+        longitude: -80.5436,
+    },
+    {
+        code: "QNC",
+        name: "Mike & Ophelia Lazaridis Quantum-Nano Centre",
+        address: MAIN_CAMPUS,
+        latitude: 43.471,
+        longitude: -80.5442,
+    },
+    {
+        code: "RCH",
+        name: "J.R. Coutts Engineering Lecture Hall",
+        address: MAIN_CAMPUS,
+        latitude: 43.4703,
+        longitude: -80.5408,
+    },
+    {
+        code: "REN",
+        name: "Renison University College",
+        address: "240 Westmount Rd N, Waterloo, ON N2L 3G4",
+        latitude: 43.4697,
+        longitude: -80.5493,
+    },
+    {
+        code: "SCH",
+        name: "South Campus Hall",
+        address: MAIN_CAMPUS,
+        latitude: 43.4688,
+        longitude: -80.5398,
+    },
+    {
+        code: "SLC",
+        name: "Student Life Centre",
+        address: MAIN_CAMPUS,
+        latitude: 43.4717,
+        longitude: -80.5454,
+    },
+    {
+        code: "STC",
+        name: "Science Teaching Complex",
+        address: MAIN_CAMPUS,
+        latitude: 43.4706,
+        longitude: -80.5433,
+    },
+    {
+        code: "STJ",
+        name: "St. Jerome's University",
+        address: "290 Westmount Rd N, Waterloo, ON N2L 3G3",
+        latitude: 43.4706,
+        longitude: -80.5473,
+    },
+    {
+        code: "STP",
+        name: "United College",
+        address: "190 Westmount Rd N, Waterloo, ON N2L 3G5",
+        latitude: 43.4746,
+        longitude: -80.548,
+    },
+    {
+        code: "TC",
+        name: "Tatham Centre",
+        address: MAIN_CAMPUS,
+        latitude: 43.4703,
+        longitude: -80.5406,
+    },
+];
+
+const BUILDINGS_BY_CODE = new Map(UW_BUILDINGS.map((b) => [b.code, b]));
+
+/**
+ * A Quest room split into its building and room number
+ */
+export interface ParsedRoom {
+    buildingCode: string;
+    roomNumber: string;
+    /** Undefined if the building code is not in `UW_BUILDINGS` */
+    building?: Building;
+}
+
+/**
+ * Rooms that are not a place on a map
+ */
+const NON_ROOMS = /^(tba|online|onln|onln - online)$/i;
+
+/**
+ * Splits a Quest room into building and room number, e.g. "MC 2065" or "MC2065"
+ * @returns The parts, or null for "TBA", "Online" and other non-rooms
+ */
+export function parseRoom(room: string): ParsedRoom | null {
+    const text = room.trim();
+    if (!text || NON_ROOMS.test(text)) return null;
+
+    const match =
+        text.match(/^([A-Z][A-Z0-9]{1,4})\s+(\S.*)$/) ??
+        text.match(/^([A-Z]{2,4})(\d[\w-]*)$/);
+    if (!match) return null;
+
+    const [, buildingCode, roomNumber] = match;
+    return {
+        buildingCode,
+        roomNumber,
+        building: BUILDINGS_BY_CODE.get(buildingCode),
+    };
+}
+
+/**
+ * Location text for calendars, e.g.
+ * "MC 2065, Mathematics and Computer Building, 200 University Ave W, Waterloo, ON N2L 3G1".
+ * Rooms in unknown buildings are returned as written.
+ */
+export function describeRoom(room: string): string {
+    const parsed = parseRoom(room);
+    if (!parsed?.building) return room;
+
+    const { building, roomNumber } = parsed;
+    return `${building.code} ${roomNumber}, ${building.name}, ${building.address}`;
+}
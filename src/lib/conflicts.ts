@@ -0,0 +1,211 @@
+import {
+    getClassDays,
+    getCourseExportMode,
+    isOneTimeMeeting,
+} from "./icsExport";
+import {
+    parseDaysAndTimes,
+    type SchedulePattern,
+    type Time,
+    type WeekDays,
+} from "./parser";
+import type { ClassMeeting, ParsedSchedule } from "./schema";
+import { toDateKey } from "./termCalendar";
+
+/**
+ * Position of a meeting in the schedule
+ */
+export interface MeetingRef {
+    courseIdx: number;
+    sessionIdx: number;
+    meetingIdx: number;
+}
+
+/**
+ * Two meetings of different sessions that are held at the same time on at
+ * least one day
+ */
+export interface ScheduleConflict {
+    first: MeetingRef;
+    second: MeetingRef;
+    /** Days both meetings are held on, in order */
+    dates: Date[];
+}
+
+const WEEKDAY_NUMBERS: Record<keyof WeekDays, number> = {
+    sunday: 0,
+    monday: 1,
+    tuesday: 2,
+    wednesday: 3,
+    thursday: 4,
+    friday: 5,
+    saturday: 6,
+};
+
+/**
+ * When a meeting is held, as minutes since midnight and date keys
+ */
+interface MeetingTimes {
+    ref: MeetingRef;
+    start: number;
+    end: number;
+    days: Map<string, Date>;
+}
+
+/**
+ * Minutes since midnight
+ */
+export function toMinutes(time: Time): number {
+    return time.hour * 60 + time.minute;
+}
+
+/**
+ * Days a meeting is held on, like the export lays them out: a meeting on a
+ * single date is held that day whatever its days say. Holidays are not left out.
+ */
+export function getMeetingDates(
+    meeting: ClassMeeting,
+    pattern: SchedulePattern,
+): Date[] {
+    if (isOneTimeMeeting(meeting)) return [meeting.startDate];
+
+    const weekdays = (
+        Object.keys(WEEKDAY_NUMBERS) as (keyof WeekDays)[]
+    ).flatMap((day) => (pattern.days[day] ? [WEEKDAY_NUMBERS[day]] : []));
+    return getClassDays(
+        { start: meeting.startDate, end: meeting.endDate },
+        weekdays,
+    );
+}
+
+/**
+ * Days and times of a meeting
+ * @returns null if the days and times can't be parsed (TBA)
+ */
+function getMeetingTimes(
+    meeting: ClassMeeting,
+    ref: MeetingRef,
+): MeetingTimes | null {
+    const pattern = parseDaysAndTimes(meeting.daysAndTimes);
+    if (!pattern) return null;
+
+    return {
+        ref,
+        start: toMinutes(pattern.startTime),
+        end: toMinutes(pattern.endTime),
+        days: new Map(
+            getMeetingDates(meeting, pattern).map((day) => [
+                toDateKey(day),
+                day,
+            ]),
+        ),
+    };
+}
+
+/**
+ * Key of a meeting, e.g. "0-1-0" for the first meeting of the second session of the first course
+ */
+export function getMeetingKey(ref: MeetingRef): string {
+    return `${ref.courseIdx}-${ref.sessionIdx}-${ref.meetingIdx}`;
+}
+
+/**
+ * Finds every pair of meetings that overlap in time on a day both are held.
+ * Courses left out of the export are ignored, and so are meetings of the same
+ * session. Classes back to back do not conflict.
+ */
+export function findScheduleConflicts(
+    schedule: ParsedSchedule,
+): ScheduleConflict[] {
+    const meetings: MeetingTimes[] = [];
+    for (const [courseIdx, course] of schedule.courses.entries()) {
+        if (getCourseExportMode(course) === "skip") continue;
+        for (const [sessionIdx, session] of course.sessions.entries()) {
+            for (const [meetingIdx, meeting] of session.meetings.entries()) {
+                const times = getMeetingTimes(meeting, {
+                    courseIdx,
+                    sessionIdx,
+                    meetingIdx,
+                });
+                if (times) meetings.push(times);
+            }
+        }
+    }
+
+    const conflicts: ScheduleConflict[] = [];
+    for (const [i, a] of meetings.entries()) {
+        for (const b of meetings.slice(i + 1)) {
+            if (
+                a.ref.courseIdx === b.ref.courseIdx &&
+                a.ref.sessionIdx === b.ref.sessionIdx
+            ) {
+                continue;
+            }
+            if (a.start >= b.end || b.start >= a.end) continue;
+
+            const dates = [...a.days]
+                .filter(([key]) => b.days.has(key))
+                .map(([, day]) => day);
+            if (dates.length > 0) {
+                conflicts.push({ first: a.ref, second: b.ref, dates });
+            }
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Conflicts by meeting key, each listed under both of its meetings
+ */
+export function groupConflictsByMeeting(
+    conflicts: ScheduleConflict[],
+): Map<string, ScheduleConflict[]> {
+    const byMeeting = new Map<string, ScheduleConflict[]>();
+    for (const conflict of conflicts) {
+        for (const ref of [conflict.first, conflict.second]) {
+            const key = getMeetingKey(ref);
+            byMeeting.set(key, [...(byMeeting.get(key) ?? []), conflict]);
+        }
+    }
+    return byMeeting;
+}
+
+/**
+ * Names a meeting, e.g. "CS 136 LEC 001 (TTh 10:00AM - 11:20AM)" or
+ * "CS 136 final exam (Tu 9:00AM - 11:30AM)"
+ */
+export function describeMeeting(
+    schedule: ParsedSchedule,
+    ref: MeetingRef,
+): string {
+    const course = schedule.courses[ref.courseIdx];
+    const session = course.sessions[ref.sessionIdx];
+    const meeting = session.meetings[ref.meetingIdx];
+    const name = session.exam
+        ? "final exam"
+        : `${session.component} ${session.section}`;
+    return `${course.courseCode} ${name} (${meeting.daysAndTimes})`;
+}
+
+/**
+ * A conflict as an export warning, e.g. "Time conflict: CS 136 LEC 001
+ * (TTh 10:00AM - 11:20AM) and MATH 135 TUT 101 (Th 10:30AM - 11:20AM) on 12
+ * days, Thu, Jan 8 to Thu, Apr 2"
+ */
+export function formatConflict(
+    schedule: ParsedSchedule,
+    conflict: ScheduleConflict,
+): string {
+    const label = (date: Date) =>
+        date.toLocaleDateString("en-CA", {
+            weekday: "short",
+            month: "short",
+            day: "numeric",
+        });
+    const { dates } = conflict;
+    const when =
+        dates.length === 1
+            ? `on ${label(dates[0])}`
+            : `on ${dates.length} days, ${label(dates[0])} to ${label(dates[dates.length - 1])}`;
+    return `Time conflict: ${describeMeeting(schedule, conflict.first)} and ${describeMeeting(schedule, conflict.second)} ${when}`;
+}
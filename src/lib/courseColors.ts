@@ -0,0 +1,63 @@
+import type { Course } from "./schema";
+
+/**
+ * A colour a course can be shown in. `name` is a CSS3 colour name, which is
+ * what the iCalendar COLOR property (RFC 7986) expects, and `hex` is the same
+ * colour for clients that read the vendor extensions.
+ */
+export interface CourseColor {
+    name: string;
+    label: string;
+    hex: string;
+}
+
+/**
+ * Colours assigned to courses in order, chosen to stay apart in a week view
+ */
+export const COURSE_COLORS: CourseColor[] = [
+    { name: "royalblue", label: "Blue", hex: "#4169e1" },
+    { name: "crimson", label: "Red", hex: "#dc143c" },
+    { name: "seagreen", label: "Green", hex: "#2e8b57" },
+    { name: "darkorange", label: "Orange", hex: "#ff8c00" },
+    { name: "mediumpurple", label: "Purple", hex: "#9370db" },
+    { name: "teal", label: "Teal", hex: "#008080" },
+    { name: "deeppink", label: "Pink", hex: "#ff1493" },
+    { name: "goldenrod", label: "Gold", hex: "#daa520" },
+    { name: "sienna", label: "Brown", hex: "#a0522d" },
+    { name: "slategray", label: "Grey", hex: "#708090" },
+];
+
+/**
+ * Colour of a course: the one picked by the user, otherwise the next colour
+ * in `COURSE_COLORS` by its position in the schedule
+ */
+export function getCourseColor(
+    course: Pick<Course, "color">,
+    courseIdx: number,
+): CourseColor {
+    return (
+        COURSE_COLORS.find((c) => c.name === course.color) ??
+        COURSE_COLORS[courseIdx % COURSE_COLORS.length]
+    );
+}
+
+/**
+ * Calendar categories of a course, the course code unless the user set a list
+ */
+export function getCourseCategories(
+    course: Pick<Course, "courseCode" | "categories">,
+): string[] {
+    return course.categories ?? [course.courseCode];
+}
+
+/**
+ * Parses a comma-separated category list as typed in the course table
+ * @returns The categories, or undefined to go back to the default
+ */
+export function parseCategories(input: string): string[] | undefined {
+    const categories = input
+        .split(",")
+        .map((c) => c.trim())
+        .filter(Boolean);
+    return categories.length > 0 ? [...new Set(categories)] : undefined;
+}
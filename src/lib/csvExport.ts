@@ -0,0 +1,216 @@
+/**
+ * CSV Export
+ * Writes the exported events as spreadsheet rows, with the same templates,
+ * holidays and status rules as the iCalendar export
+ */
+
+import {
+    generateScheduleEvents,
+    getClassDays,
+    type IcsExportOptions,
+    type ScheduleEvent,
+} from "./icsExport";
+import type { ExportFormat, ParsedSchedule } from "./schema";
+import { toDateKey } from "./termCalendar";
+import { fromScheduleDateTime } from "./timezone";
+
+/**
+ * Quotes a field if it holds a comma, quote or line break (RFC 4180)
+ */
+function escapeCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Joins rows into CSV text, with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+    return `${rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n")}\r\n`;
+}
+
+/**
+ * One class of an event, in Toronto time
+ */
+interface Occurrence {
+    start: { day: Date; hour: number; minute: number };
+    end: { day: Date; hour: number; minute: number };
+}
+
+/**
+ * Expands an event into its classes: every day of its weekly rule except the
+ * skipped ones, or its first date plus its explicit dates
+ */
+function getEventOccurrences(event: ScheduleEvent): Occurrence[] {
+    const start = fromScheduleDateTime(event.start);
+    const end = event.end ? fromScheduleDateTime(event.end) : start;
+    // Classes crossing midnight end on the next day
+    const dayOffset = Math.round(
+        (end.day.getTime() - start.day.getTime()) / 86400000,
+    );
+
+    let days: Date[];
+    const rule = event.recurrenceRule;
+    if (rule?.until) {
+        const skipped = new Set(
+            (event.exceptionDates ?? []).map((d) =>
+                toDateKey(fromScheduleDateTime(d).day),
+            ),
+        );
+        const weekdays = (rule.byDay ?? []).map((d) =>
+            ["SU", "MO", "TU", "WE", "TH", "FR", "SA"].indexOf(d.day),
+        );
+        days = getClassDays(
+            {
+                start: start.day,
+                end: fromScheduleDateTime({ date: rule.until.date }).day,
+            },
+            weekdays,
+        ).filter((day) => !skipped.has(toDateKey(day)));
+    } else {
+        days = [
+            start.day,
+            ...(event.nonStandard?.recurrenceDates ?? []).map(
+                (d) => fromScheduleDateTime(d).day,
+            ),
+        ];
+    }
+
+    return days.map((day) => {
+        const endDay = new Date(day);
+        endDay.setDate(endDay.getDate() + dayOffset);
+        return {
+            start: { ...start, day },
+            end: { ...end, day: endDay },
+        };
+    });
+}
+
+/**
+ * Formats a date for Google Calendar, e.g. "01/05/2026"
+ */
+function formatGoogleDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${month}/${day}/${date.getFullYear()}`;
+}
+
+/**
+ * Formats a time for Google Calendar, e.g. "8:30 AM"
+ */
+function formatGoogleTime(hour: number, minute: number): string {
+    const suffix = hour < 12 ? "AM" : "PM";
+    return `${hour % 12 || 12}:${String(minute).padStart(2, "0")} ${suffix}`;
+}
+
+const SESSION_COLUMNS = [
+    "Subject",
+    "Course",
+    "Course Name",
+    "Section",
+    "Component",
+    "Class Nbr",
+    "Days and Times",
+    "Start Date",
+    "End Date",
+    "Room",
+    "Instructor",
+    "Status",
+    "Classes",
+    "Description",
+];
+
+// The columns Google Calendar's CSV import reads
+const GOOGLE_COLUMNS = [
+    "Subject",
+    "Start Date",
+    "Start Time",
+    "End Date",
+    "End Time",
+    "All Day Event",
+    "Description",
+    "Location",
+];
+
+/**
+ * Generate a CSV of the schedule
+ * @param format "csv" for one row per session meeting, "google-csv" for one
+ * row per class in Google Calendar's import layout
+ */
+export function generateScheduleCsv(
+    schedule: ParsedSchedule,
+    options: IcsExportOptions,
+    format: Exclude<ExportFormat, "ics">,
+): { csvContent: string; warnings: string[]; notices: string[] } {
+    const { events, sources, warnings, notices } = generateScheduleEvents(
+        schedule,
+        options,
+    );
+
+    if (format === "csv") {
+        const rows = events.flatMap((event) => {
+            const source = sources.get(event);
+            if (!source) return [];
+            const { course, session, meeting } = source;
+            return [
+                [
+                    event.summary,
+                    course.courseCode,
+                    course.courseName,
+                    session.section,
+                    session.component,
+                    session.classNumber ? String(session.classNumber) : "",
+                    meeting.daysAndTimes,
+                    toDateKey(meeting.startDate),
+                    toDateKey(meeting.endDate),
+                    meeting.room,
+                    meeting.instructor,
+                    course.status,
+                    String(getEventOccurrences(event).length),
+                    event.description ?? "",
+                ],
+            ];
+        });
+        return {
+            csvContent: toCsv([SESSION_COLUMNS, ...rows]),
+            warnings,
+            notices,
+        };
+    }
+
+    // Google imports every row as a new event, it has no way to cancel one
+    const cancelled = events.filter((e) => e.status === "CANCELLED");
+    if (cancelled.length > 0) {
+        warnings.push(
+            "Dropped courses were left out: Google Calendar CSV files cannot cancel events",
+        );
+    }
+
+    const rows = events
+        .filter((event) => event.status !== "CANCELLED")
+        .flatMap((event) =>
+            getEventOccurrences(event).map((occurrence) => ({
+                event,
+                occurrence,
+            })),
+        )
+        .sort(
+            (a, b) =>
+                a.occurrence.start.day.getTime() -
+                    b.occurrence.start.day.getTime() ||
+                a.occurrence.start.hour * 60 +
+                    a.occurrence.start.minute -
+                    (b.occurrence.start.hour * 60 + b.occurrence.start.minute),
+        )
+        .map(({ event, occurrence: { start, end } }) => [
+            event.summary,
+            formatGoogleDate(start.day),
+            formatGoogleTime(start.hour, start.minute),
+            formatGoogleDate(end.day),
+            formatGoogleTime(end.hour, end.minute),
+            "False",
+            event.description ?? "",
+            event.location ?? "",
+        ]);
+
+    return { csvContent: toCsv([GOOGLE_COLUMNS, ...rows]), warnings, notices };
+}
@@ -0,0 +1,210 @@
+import { normalizeRowLayout, parseQuestDate, splitSourceLines } from "./parser";
+import type {
+    ClassSession,
+    Course,
+    ParseDiagnostic,
+    ParsedSchedule,
+} from "./schema";
+
+/**
+ * A single final exam read from Quest "My Final Exam Schedule".
+ */
+export interface FinalExam {
+    courseCode: string;
+    section: string;
+    date: Date;
+    startTime: string; // e.g. "9:00AM"
+    endTime: string;
+    location: string;
+    notes: string;
+}
+
+export interface ExamParseResult {
+    exams: FinalExam[];
+    diagnostics: ParseDiagnostic[];
+}
+
+// Matches "CS 136" or "CS 136 - 001"
+const examCourseRegex = /^([A-Z]{2,10}\s\d{1,4}[A-Z]?)(?:\s*-\s*(\d{3}))?$/;
+const sectionRegex = /^\d{3}$/;
+const timeRegex = /^(\d{1,2}:\d{2})\s?([AP]M)$/i;
+const timeRangeRegex =
+    /^(\d{1,2}:\d{2})\s?([AP]M)\s*-\s*(\d{1,2}:\d{2})\s?([AP]M)$/i;
+
+const DAY_CODES = ["Su", "M", "T", "W", "Th", "F", "S"];
+
+/**
+ * Parses "13/04/2026" (Quest) or spelled-out dates like "Monday, April 13, 2026"
+ */
+function parseExamDate(str: string): Date | null {
+    const questDate = parseQuestDate(str);
+    if (questDate) return questDate;
+
+    if (!/[A-Za-z]{3,}/.test(str) || !/\d{4}/.test(str)) return null;
+    const date = new Date(str.replace(/^[A-Za-z]+,\s*/, ""));
+    if (Number.isNaN(date.getTime())) return null;
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Parses the raw text output from Quest "My Final Exam Schedule".
+ *
+ * Rows can be copied one cell per line or tab-separated. Each row starts with the
+ * course code, then: Section | Date | Start Time | End Time | Location | Seat/Notes.
+ * Cells are recognised by shape rather than position, so a combined
+ * "9:00AM - 11:30AM" time cell or missing section also work.
+ * @param input Raw text string from Quest
+ * @returns The exams found, plus diagnostics for rows that were skipped
+ */
+export function parseExamSchedule(input: string): ExamParseResult {
+    const { lines, lineNumbers } = normalizeRowLayout(splitSourceLines(input));
+    const exams: FinalExam[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+
+    // 1. Group cells into rows, each starting at a course code. Room names like
+    // "PAC 1" look like course codes too, so a cell right after the times, or in
+    // the middle of a tab-separated line, is never the start of a new row.
+    const rows: { cells: string[]; lineIndex: number }[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const previous = rows[rows.length - 1]?.cells.at(-1) ?? "";
+        const startsLine = i === 0 || lineNumbers[i] !== lineNumbers[i - 1];
+        const followsTime =
+            timeRegex.test(previous) || timeRangeRegex.test(previous);
+        if (startsLine && !followsTime && examCourseRegex.test(lines[i])) {
+            rows.push({ cells: [lines[i]], lineIndex: i });
+        } else if (rows.length > 0) {
+            rows[rows.length - 1].cells.push(lines[i]);
+        }
+    }
+
+    // 2. Pick the fields out of each row
+    for (const { cells, lineIndex } of rows) {
+        const courseMatch = cells[0].match(examCourseRegex);
+        if (!courseMatch) continue;
+
+        let section = courseMatch[2] ?? "";
+        let date: Date | null = null;
+        const times: string[] = [];
+        const rest: string[] = [];
+
+        for (const cell of cells.slice(1)) {
+            const rangeMatch = cell.match(timeRangeRegex);
+            const timeMatch = cell.match(timeRegex);
+            if (!section && sectionRegex.test(cell)) {
+                section = cell;
+            } else if (!date && parseExamDate(cell)) {
+                date = parseExamDate(cell);
+            } else if (rangeMatch && times.length === 0) {
+                times.push(
+                    `${rangeMatch[1]}${rangeMatch[2].toUpperCase()}`,
+                    `${rangeMatch[3]}${rangeMatch[4].toUpperCase()}`,
+                );
+            } else if (timeMatch && times.length < 2) {
+                times.push(`${timeMatch[1]}${timeMatch[2].toUpperCase()}`);
+            } else if (times.length === 2) {
+                // Location and notes come after the times
+                rest.push(cell);
+            }
+        }
+
+        if (!date || times.length < 2) {
+            diagnostics.push({
+                severity: "warning",
+                code: "incomplete-exam-row",
+                message: date
+                    ? "Exam has no start and end time, skipped"
+                    : "Exam has no date, skipped",
+                line: lineNumbers[lineIndex],
+                text: cells.join(" | "),
+                courseCode: courseMatch[1],
+            });
+            continue;
+        }
+
+        exams.push({
+            courseCode: courseMatch[1],
+            section,
+            date,
+            startTime: times[0],
+            endTime: times[1],
+            location: rest[0] ?? "TBA",
+            notes: rest[1] ?? "",
+        });
+    }
+
+    if (exams.length === 0) {
+        diagnostics.push({
+            severity: "warning",
+            code: "no-exams",
+            message: "No exams found in the pasted exam schedule",
+        });
+    }
+
+    return { exams, diagnostics };
+}
+
+/**
+ * Adds final exams to a schedule as one-off exam sessions.
+ * An exam replaces an earlier imported exam for the same course and section,
+ * and courses missing from the schedule are added.
+ */
+export function mergeExamSchedule(
+    schedule: ParsedSchedule,
+    exams: FinalExam[],
+): ParsedSchedule {
+    const courses: Course[] = schedule.courses.map((c) => ({
+        ...c,
+        sessions: [...c.sessions],
+    }));
+    const normalizeCode = (code: string) => code.replace(/\s+/g, " ").trim();
+
+    for (const exam of exams) {
+        let course = courses.find(
+            (c) =>
+                normalizeCode(c.courseCode) === normalizeCode(exam.courseCode),
+        );
+        if (!course) {
+            course = {
+                courseCode: exam.courseCode,
+                courseName: "",
+                status: "Enrolled",
+                units: 0,
+                grading: "Unknown",
+                sessions: [],
+            };
+            courses.push(course);
+        }
+
+        // The exam is for a class section, keep its component
+        const classSession = course.sessions.find(
+            (s) => !s.exam && s.section === exam.section,
+        );
+        const session: ClassSession = {
+            classNumber: 0,
+            section: exam.section,
+            component: classSession?.component ?? "LEC",
+            exam: true,
+            meetings: [
+                {
+                    daysAndTimes: `${DAY_CODES[exam.date.getDay()]} ${exam.startTime} - ${exam.endTime}`,
+                    room: exam.location,
+                    instructor: "",
+                    startDate: exam.date,
+                    endDate: exam.date,
+                    notes: exam.notes || undefined,
+                },
+            ],
+        };
+
+        const existingIdx = course.sessions.findIndex(
+            (s) => s.exam && s.section === exam.section,
+        );
+        if (existingIdx === -1) {
+            course.sessions.push(session);
+        } else {
+            course.sessions[existingIdx] = session;
+        }
+    }
+
+    return { ...schedule, courses };
+}
@@ -0,0 +1,82 @@
+/**
+ * Export Preferences
+ * Saves the Export Options to localStorage so they survive a reload
+ */
+
+import { DEFAULT_EXPORT_OPTIONS, type IcsExportOptions } from "./icsExport";
+import { type ExportPreferences, ExportPreferencesSchema } from "./schema";
+import { parseSkipDates } from "./termCalendar";
+
+const STORAGE_KEY = "quest-schedule-exporter:export-preferences";
+
+/**
+ * Keeps the settings that are valid, so one outdated setting doesn't discard the rest
+ */
+export function pickValidPreferences(
+    json: Record<string, unknown>,
+): Partial<ExportPreferences> {
+    const preferences: Partial<ExportPreferences> = {};
+    for (const [key, schema] of Object.entries(ExportPreferencesSchema.shape)) {
+        const result = schema.safeParse(json[key]);
+        if (result.success) {
+            Object.assign(preferences, { [key]: result.data });
+        }
+    }
+    return preferences;
+}
+
+/**
+ * Loads the saved preferences. Settings that are missing or no longer valid
+ * are left out, so the caller keeps its defaults for them.
+ * @returns The saved preferences, or an empty object if none were saved
+ */
+export function loadExportPreferences(): Partial<ExportPreferences> {
+    if (typeof window === "undefined") return {};
+
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        if (!saved) return {};
+
+        return pickValidPreferences(JSON.parse(saved));
+    } catch {
+        console.warn("Failed to load saved export preferences");
+        return {};
+    }
+}
+
+/**
+ * Saves the preferences, replacing any saved before
+ */
+export function saveExportPreferences(preferences: ExportPreferences): void {
+    if (typeof window === "undefined") return;
+
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch {
+        // Storage can be full or disabled (private browsing), preferences just won't persist
+        console.warn("Failed to save export preferences");
+    }
+}
+
+/**
+ * Export options for saved preferences, the defaults for anything left out.
+ * Skip dates that are not dates are ignored.
+ */
+export function toExportOptions(
+    preferences: Partial<ExportPreferences>,
+): IcsExportOptions {
+    return {
+        summaryTemplate:
+            preferences.summaryTemplate ??
+            DEFAULT_EXPORT_OPTIONS.summaryTemplate,
+        descriptionTemplate:
+            preferences.descriptionTemplate ??
+            DEFAULT_EXPORT_OPTIONS.descriptionTemplate,
+        examSummaryTemplate:
+            preferences.examSummaryTemplate ??
+            DEFAULT_EXPORT_OPTIONS.examSummaryTemplate,
+        skipDates: parseSkipDates(preferences.skipDates ?? "").dates,
+        alarms: preferences.alarms,
+        droppedCourses: preferences.droppedCourses,
+    };
+}
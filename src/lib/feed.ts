@@ -0,0 +1,203 @@
+/**
+ * Calendar Feeds
+ * Published schedules are stored in KV behind an unguessable token, and
+ * turned into a calendar each time a calendar app asks for the feed.
+ * Anyone with the feed URL can read it, changing or removing it takes the
+ * edit key handed out when it was published.
+ */
+
+import { ApiError, readRequestText } from "./api";
+import { toExportOptions } from "./exportPreferences";
+import { buildIcsCalendar, generateScheduleEvents } from "./icsExport";
+import { readScheduleFile, writeScheduleFile } from "./scheduleFile";
+import type { ExportPreferences, ParsedSchedule } from "./schema";
+
+/** Feeds not updated for this long are removed */
+const FEED_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+// 24 random bytes, base64url without padding
+const secretRegex = /^[A-Za-z0-9_-]{32}$/;
+
+/**
+ * Stored next to each feed in KV
+ */
+interface FeedMetadata {
+    editKeyHash: string;
+    updatedAt: string;
+}
+
+function createSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_");
+}
+
+async function hashEditKey(editKey: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(editKey),
+    );
+    return [...new Uint8Array(digest)]
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+/**
+ * The KV namespace feeds are stored in
+ * @throws ApiError 503 if the deployment has no SCHEDULE_FEEDS binding
+ */
+export function getFeedStore(env: Env): KVNamespace {
+    if (!env.SCHEDULE_FEEDS) {
+        throw new ApiError(
+            "Calendar feeds are not set up on this server: bind a KV namespace named SCHEDULE_FEEDS in wrangler.jsonc",
+            503,
+        );
+    }
+    return env.SCHEDULE_FEEDS;
+}
+
+/**
+ * URL path of a feed, e.g. "/api/feed/<token>.ics"
+ */
+export function getFeedPath(token: string): string {
+    return `/api/feed/${token}.ics`;
+}
+
+/**
+ * One calendar with every term of the feed, named after the terms
+ */
+export function generateFeedIcs(
+    schedules: ParsedSchedule[],
+    preferences: Partial<ExportPreferences>,
+): string {
+    const options = toExportOptions(preferences);
+    const events = schedules.flatMap(
+        (schedule) => generateScheduleEvents(schedule, options).events,
+    );
+    const terms = schedules
+        .map((s) => `${s.term.season} ${s.term.year}`)
+        .join(", ");
+    return buildIcsCalendar(events, { name: `Classes (${terms})` });
+}
+
+/**
+ * Reads the schedule file sent to publish or update a feed
+ * @returns The file, rewritten in the current version
+ * @throws ApiError if the body is too large, ParserError if it is not a valid schedule file
+ */
+export async function readFeedRequest(request: Request): Promise<string> {
+    const { results, preferences } = readScheduleFile(
+        await readRequestText(request),
+    );
+    return writeScheduleFile(
+        results.map((r) => r.schedule),
+        preferences,
+    );
+}
+
+/**
+ * Edit key sent as "Authorization: Bearer <key>"
+ */
+export function getEditKey(request: Request): string {
+    const match = request.headers
+        .get("Authorization")
+        ?.match(/^Bearer\s+(\S+)$/i);
+    if (!match || !secretRegex.test(match[1])) {
+        throw new ApiError("An edit key is required", 401);
+    }
+    return match[1];
+}
+
+async function storeFeed(
+    kv: KVNamespace,
+    token: string,
+    file: string,
+    editKeyHash: string,
+): Promise<void> {
+    await kv.put(token, file, {
+        expirationTtl: FEED_TTL_SECONDS,
+        metadata: {
+            editKeyHash,
+            updatedAt: new Date().toISOString(),
+        } satisfies FeedMetadata,
+    });
+}
+
+/**
+ * Checks the token names a feed and the edit key is the one it was published with
+ * @throws ApiError if the feed does not exist or the key is wrong
+ */
+async function authorizeFeed(
+    kv: KVNamespace,
+    token: string,
+    editKey: string,
+): Promise<FeedMetadata> {
+    if (!secretRegex.test(token)) throw new ApiError("Feed not found", 404);
+
+    const { metadata } = await kv.getWithMetadata<FeedMetadata>(token);
+    if (!metadata) throw new ApiError("Feed not found", 404);
+    if (metadata.editKeyHash !== (await hashEditKey(editKey))) {
+        throw new ApiError("The edit key does not match this feed", 403);
+    }
+    return metadata;
+}
+
+/**
+ * Publishes a schedule file as a new feed
+ * @returns The feed's token and the key needed to change or remove it
+ */
+export async function createFeed(
+    kv: KVNamespace,
+    file: string,
+): Promise<{ token: string; editKey: string }> {
+    const token = createSecret();
+    const editKey = createSecret();
+    await storeFeed(kv, token, file, await hashEditKey(editKey));
+    return { token, editKey };
+}
+
+/**
+ * Replaces the schedule of a feed, which also restarts its expiry
+ */
+export async function replaceFeed(
+    kv: KVNamespace,
+    token: string,
+    editKey: string,
+    file: string,
+): Promise<void> {
+    const { editKeyHash } = await authorizeFeed(kv, token, editKey);
+    await storeFeed(kv, token, file, editKeyHash);
+}
+
+/**
+ * Removes a feed, calendar apps subscribed to it get a 404 from then on
+ */
+export async function deleteFeed(
+    kv: KVNamespace,
+    token: string,
+    editKey: string,
+): Promise<void> {
+    await authorizeFeed(kv, token, editKey);
+    await kv.delete(token);
+}
+
+/**
+ * Generates the calendar of a feed from its stored schedule
+ * @returns The calendar, or null if there is no feed with that token
+ */
+export async function renderFeed(
+    kv: KVNamespace,
+    token: string,
+): Promise<string | null> {
+    if (!secretRegex.test(token)) return null;
+
+    const file = await kv.get(token);
+    if (file === null) return null;
+
+    const { results, preferences } = readScheduleFile(file);
+    return generateFeedIcs(
+        results.map((r) => r.schedule),
+        preferences,
+    );
+}
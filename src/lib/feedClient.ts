@@ -0,0 +1,105 @@
+/**
+ * Calendar Feed Client
+ * Publishes, updates and revokes the feed from the browser, remembering the
+ * published feed in localStorage so it can be updated on a later visit
+ */
+
+const STORAGE_KEY = "quest-schedule-exporter:feed";
+
+/**
+ * A feed this browser published
+ */
+export interface PublishedFeed {
+    token: string;
+    /** Needed to update or revoke the feed, only this browser has it */
+    editKey: string;
+    url: string;
+}
+
+/**
+ * Loads the feed published from this browser
+ * @returns The feed, or null if none was published
+ */
+export function loadPublishedFeed(): PublishedFeed | null {
+    if (typeof window === "undefined") return null;
+
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : null;
+    } catch {
+        console.warn("Failed to load the published feed");
+        return null;
+    }
+}
+
+/**
+ * Remembers the published feed, or forgets it when given null
+ */
+export function savePublishedFeed(feed: PublishedFeed | null): void {
+    if (typeof window === "undefined") return;
+
+    try {
+        if (feed) {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(feed));
+        } else {
+            window.localStorage.removeItem(STORAGE_KEY);
+        }
+    } catch {
+        // Storage can be full or disabled (private browsing), the feed just can't be updated later
+        console.warn("Failed to save the published feed");
+    }
+}
+
+/**
+ * Throws the error message the feed API answered with
+ */
+async function throwResponseError(response: Response): Promise<never> {
+    const body = await response.json<{ error?: string }>().catch(() => null);
+    throw new Error(
+        body?.error ?? `The feed request failed (${response.status})`,
+    );
+}
+
+/**
+ * Publishes a schedule file as a new feed
+ */
+export async function publishFeed(file: string): Promise<PublishedFeed> {
+    const response = await fetch("/api/feed", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: file,
+    });
+    if (!response.ok) return throwResponseError(response);
+    return response.json<PublishedFeed>();
+}
+
+/**
+ * Replaces the schedule of a published feed
+ */
+export async function updatePublishedFeed(
+    feed: PublishedFeed,
+    file: string,
+): Promise<void> {
+    const response = await fetch(new URL(feed.url).pathname, {
+        method: "PUT",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${feed.editKey}`,
+        },
+        body: file,
+    });
+    if (!response.ok) return throwResponseError(response);
+}
+
+/**
+ * Revokes a published feed. A feed that is already gone counts as revoked.
+ */
+export async function unpublishFeed(feed: PublishedFeed): Promise<void> {
+    const response = await fetch(new URL(feed.url).pathname, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${feed.editKey}` },
+    });
+    if (!response.ok && response.status !== 404) {
+        return throwResponseError(response);
+    }
+}
@@ -0,0 +1,242 @@
+import {
+    classNumberRegex,
+    courseHeaderRegex,
+    type ParseResult,
+    ParserError,
+    parseQuestDateRange,
+    parseTermHeader,
+    validateParseResult,
+} from "./parser";
+import {
+    type ClassSession,
+    type Course,
+    CourseStatusSchema,
+    type ParseDiagnostic,
+} from "./schema";
+
+/**
+ * Collapses whitespace (including &nbsp;) in an element's text
+ */
+function cellText(el: Element): string {
+    return (el.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Returns true if the HTML looks like a Quest "My Class Schedule" page or table selection.
+ */
+export function isQuestScheduleHtml(html: string): boolean {
+    return /Class\s+Nbr/i.test(html) && /<t[dr][\s>]/i.test(html);
+}
+
+/**
+ * Parses the HTML of Quest "My Class Schedule" list view, either the `text/html`
+ * clipboard flavour or a page saved with "Save Page As".
+ *
+ * PeopleSoft nests layout tables inside each other, so only the innermost rows
+ * are read. Every row is then one of: a course title, the Status/Units/Grading
+ * header and its values, the Class Nbr header, or a class row (7 cells, with the
+ * first three blank on continuation rows). Needs a DOM (`DOMParser`).
+ * @param html Raw HTML string
+ * @returns ParsedSchedule object with term info and courses, plus diagnostics
+ * @throws ParserError if the markup has no term or class table
+ */
+export function parseScheduleHtml(html: string): ParseResult {
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    const diagnostics: ParseDiagnostic[] = [];
+
+    // 1. Find Term Info (Header) among the text nodes
+    const texts: string[] = [];
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const text = (node.nodeValue ?? "").replace(/\s+/g, " ").trim();
+        if (text) texts.push(text);
+    }
+    const { term } = parseTermHeader(texts);
+
+    // 2. Read the innermost table rows as lists of cell texts
+    const rows = [...doc.querySelectorAll("tr")]
+        .filter((tr) => !tr.querySelector("tr"))
+        .map((tr) =>
+            [...tr.querySelectorAll(":scope > td, :scope > th")].map(cellText),
+        )
+        .filter((cells) => cells.some((c) => c.length > 0));
+
+    if (!rows.some((cells) => cells[0] === "Class Nbr")) {
+        const message = "Could not find a class table in the HTML";
+        throw new ParserError(message, [
+            { severity: "error", code: "missing-class-table", message },
+        ]);
+    }
+
+    // 3. State Machine over rows, mirroring the text parser
+    const courses: Course[] = [];
+    let currentCourse: Course | null = null;
+    let currentSession: ClassSession | null = null;
+    let inSessionBlock = false;
+
+    const report = (
+        severity: ParseDiagnostic["severity"],
+        code: string,
+        message: string,
+        cells: string[],
+        classNumber?: number,
+    ) => {
+        diagnostics.push({
+            severity,
+            code,
+            message,
+            text: cells.filter(Boolean).join(" | "),
+            courseCode: currentCourse?.courseCode,
+            classNumber,
+        });
+    };
+
+    for (let i = 0; i < rows.length; i++) {
+        const cells = rows[i];
+        const filled = cells.filter((c) => c.length > 0);
+
+        // CHECK: New Course Header
+        const courseMatch =
+            filled.length === 1 ? filled[0].match(courseHeaderRegex) : null;
+        if (courseMatch) {
+            currentCourse = {
+                courseCode: courseMatch[1],
+                courseName: courseMatch[2],
+                sessions: [],
+                // Defaults
+                status: "Enrolled",
+                units: 0,
+                grading: "Unknown",
+            };
+            courses.push(currentCourse);
+            currentSession = null;
+            inSessionBlock = false;
+            continue;
+        }
+
+        if (!currentCourse) continue;
+
+        // CHECK: Status/Units/Grading header, values are on the next row
+        if (cells[0] === "Status" && cells[1] === "Units") {
+            inSessionBlock = false;
+            currentSession = null;
+            const values = rows[i + 1] ?? [];
+            const status = CourseStatusSchema.safeParse(values[0]);
+            if (status.success) {
+                currentCourse.status = status.data;
+                const units = Number.parseFloat(values[1] ?? "");
+                if (!Number.isNaN(units)) currentCourse.units = units;
+                if (values[2]) currentCourse.grading = values[2];
+                i += 1;
+            } else {
+                report(
+                    "warning",
+                    "unrecognized-status",
+                    `Expected Enrolled, Dropped or Waitlisted, assuming ${currentCourse.status}`,
+                    values,
+                );
+            }
+            continue;
+        }
+
+        // CHECK: Session Header
+        if (cells[0] === "Class Nbr") {
+            inSessionBlock = true;
+            continue;
+        }
+
+        if (!inSessionBlock || cells.length < 7) continue;
+
+        // CHECK: Session or Continuation Row
+        // Fields: Class# | Section | Component | Days & Times | Room | Instructor | Dates
+        const [
+            classNbr,
+            section,
+            component,
+            daysAndTimes,
+            room,
+            instructor,
+            dates,
+        ] = cells;
+        const isContinuation = !classNbr && !section && !component;
+
+        if (!isContinuation && !classNumberRegex.test(classNbr)) {
+            report(
+                "warning",
+                "unrecognized-session-row",
+                "Row in the class table does not start with a class number, skipped",
+                cells,
+            );
+            continue;
+        }
+
+        const classNumber = isContinuation
+            ? currentSession?.classNumber
+            : Number.parseInt(classNbr, 10);
+        const dateRange = parseQuestDateRange(dates);
+        if (!dateRange) {
+            if (!isContinuation) currentSession = null;
+            report(
+                "warning",
+                "invalid-date-range",
+                isContinuation
+                    ? "Invalid date range, meeting skipped"
+                    : "Invalid date range, session skipped",
+                cells,
+                classNumber,
+            );
+            continue;
+        }
+
+        const meeting = {
+            daysAndTimes,
+            room,
+            instructor,
+            startDate: dateRange.start,
+            endDate: dateRange.end,
+        };
+
+        if (isContinuation) {
+            if (currentSession) {
+                currentSession.meetings.push(meeting);
+            } else {
+                report(
+                    "warning",
+                    "orphan-meeting-row",
+                    "Continuation row has no class above it, skipped",
+                    cells,
+                );
+            }
+            continue;
+        }
+
+        currentSession = {
+            classNumber: Number.parseInt(classNbr, 10),
+            section,
+            component,
+            meetings: [meeting],
+        };
+        currentCourse.sessions.push(currentSession);
+    }
+
+    for (const course of courses) {
+        if (course.sessions.length === 0) {
+            diagnostics.push({
+                severity: course.status === "Dropped" ? "info" : "warning",
+                code: "course-without-sessions",
+                message: "No class sessions found for this course",
+                courseCode: course.courseCode,
+            });
+        }
+    }
+
+    if (courses.length === 0) {
+        diagnostics.push({
+            severity: "warning",
+            code: "no-courses",
+            message: "No courses found in the HTML",
+        });
+    }
+
+    return validateParseResult({ term, courses }, diagnostics);
+}
@@ -1,6 +1,39 @@
-import { generateIcsCalendar, type IcsCalendar, type IcsEvent } from "ts-ics";
-import { parseDaysAndTimes, type WeekDays } from "@/lib/parser";
-import type { Course, ParsedSchedule } from "@/lib/schema";
+import {
+    type GenerateNonStandardValues,
+    generateIcsCalendar,
+    generateIcsEvent,
+    generateIcsLocalDateTime,
+    type IcsAlarm,
+    type IcsCalendar,
+    type IcsDateObject,
+    type IcsEvent,
+    type NonStandardValueName,
+} from "ts-ics";
+import { type Building, describeRoom, parseRoom } from "@/lib/buildings";
+import {
+    type CourseColor,
+    getCourseCategories,
+    getCourseColor,
+} from "@/lib/courseColors";
+import { type DateRange, parseDaysAndTimes, type WeekDays } from "@/lib/parser";
+import {
+    type AlarmMinutes,
+    type AlarmSettings,
+    type ClassMeeting,
+    type ClassSession,
+    ComponentTypeSchema,
+    type Course,
+    type DroppedCourseExport,
+    type ParsedSchedule,
+    type TermInfo,
+} from "@/lib/schema";
+import { parseTemplate, renderTemplate } from "@/lib/template";
+import { getTermClosures, getTermKey, toDateKey } from "@/lib/termCalendar";
+import {
+    SCHEDULE_TIMEZONE,
+    SCHEDULE_VTIMEZONE,
+    scheduleDateTime,
+} from "@/lib/timezone";
 
 /**
  * Convert WeekDays object to ICS day codes
@@ -22,160 +55,642 @@ function getIcsDays(
 }
 
 /**
- * Apply template placeholders
+ * Sessions with at most this many classes are written as explicit dates (RDATE)
+ * instead of a weekly rule.
  */
-function applyTemplate(
-    template: string,
+const RDATE_MAX_OCCURRENCES = 4;
+
+/**
+ * Extra VEVENT properties that ts-ics has no field for
+ */
+type EventNonStandard = {
+    recurrenceDates: IcsDateObject[];
+    color: CourseColor;
+    appleColor: CourseColor;
+    outlookColor: CourseColor;
+    funambolColor: CourseColor;
+    structuredLocation: { building: Building; title: string };
+};
+
+/**
+ * A calendar event generated from the schedule
+ */
+export type ScheduleEvent = IcsEvent<EventNonStandard>;
+
+/**
+ * The course, session and meeting an event was generated from
+ */
+export interface EventSource {
+    course: Course;
+    session: ClassSession;
+    meeting: ClassMeeting;
+}
+
+/**
+ * Name of a standard property ts-ics has no field for. Its extra properties
+ * are typed as X- names but written as given, so the standard ones it lacks
+ * go through them. This is the only place that casts past that check.
+ */
+function standardPropertyName(name: "RDATE" | "COLOR"): NonStandardValueName {
+    return name as NonStandardValueName;
+}
+
+/**
+ * How the extra properties are written. All RDATE dates share the Toronto
+ * TZID, which RDATE allows on a single line.
+ */
+const EVENT_NON_STANDARD: GenerateNonStandardValues<EventNonStandard> = {
+    recurrenceDates: {
+        name: standardPropertyName("RDATE"),
+        generate: (dates) => ({
+            value: dates
+                .map((d) =>
+                    d.local
+                        ? generateIcsLocalDateTime(d.date, d.local, [
+                              SCHEDULE_VTIMEZONE,
+                          ])
+                        : d.date.toISOString(),
+                )
+                .join(","),
+            options: { TZID: SCHEDULE_TIMEZONE },
+        }),
+    },
+    // RFC 7986 COLOR takes a CSS3 colour name, the vendor extensions a hex value
+    color: {
+        name: standardPropertyName("COLOR"),
+        generate: (color) => ({ value: color.name }),
+    },
+    appleColor: {
+        name: "X-APPLE-CALENDAR-COLOR",
+        generate: (color) => ({ value: color.hex }),
+    },
+    outlookColor: {
+        name: "X-OUTLOOK-COLOR",
+        generate: (color) => ({ value: color.hex }),
+    },
+    funambolColor: {
+        name: "X-FUNAMBOL-COLOR",
+        generate: (color) => ({ value: color.hex }),
+    },
+    // Apple Calendar shows a map for this instead of searching for LOCATION
+    structuredLocation: {
+        name: "X-APPLE-STRUCTURED-LOCATION",
+        generate: ({ building, title }) => ({
+            value: `geo:${building.latitude},${building.longitude}`,
+            options: {
+                VALUE: "URI",
+                "X-ADDRESS": `"${building.address}"`,
+                "X-APPLE-RADIUS": "70",
+                "X-TITLE": `"${title}"`,
+            },
+        }),
+    },
+};
+
+/**
+ * True if a meeting happens on a single date, so it is exported as a plain event
+ * (midterms listed as TST, one-day labs, final exams).
+ */
+export function isOneTimeMeeting(
+    meeting: Pick<ClassMeeting, "startDate" | "endDate">,
+): boolean {
+    return toDateKey(meeting.startDate) === toDateKey(meeting.endDate);
+}
+
+/**
+ * Lists every day in the range that falls on one of the given weekdays
+ * @param weekdays Day numbers as in `Date.getDay()` (0 = Sunday)
+ */
+export function getClassDays(range: DateRange, weekdays: number[]): Date[] {
+    const classDays: Date[] = [];
+    for (
+        const day = new Date(range.start);
+        day <= range.end;
+        day.setDate(day.getDate() + 1)
+    ) {
+        if (weekdays.includes(day.getDay())) classDays.push(new Date(day));
+    }
+    return classDays;
+}
+
+/**
+ * Options controlling how a schedule is turned into calendar events.
+ */
+export interface IcsExportOptions {
+    summaryTemplate: string;
+    descriptionTemplate: string;
+    /** Summary for final exams, which are exported as one-off events */
+    examSummaryTemplate: string;
+    /** Extra days to leave out of recurring events, on top of the term's holidays */
+    skipDates?: Date[];
+    /** Reminders per component type and course, none if left out */
+    alarms?: AlarmSettings;
+    /** Dropped courses are skipped unless set to "cancelled" */
+    droppedCourses?: DroppedCourseExport;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: IcsExportOptions = {
+    summaryTemplate: "@code @type[ in @location]",
+    descriptionTemplate:
+        "@code-@section: @name (@type)[ in @location][ with @instructor]",
+    examSummaryTemplate: "@code Final Exam[ in @location]",
+};
+
+/**
+ * Put in front of the summary of waitlisted classes
+ */
+export const WAITLISTED_SUMMARY_MARKER = "[Waitlisted]";
+
+/**
+ * How a course is exported: as is, as tentative (waitlisted), as cancelled
+ * (dropped, if asked for) or not at all
+ */
+export type CourseExportMode = "confirmed" | "tentative" | "cancelled" | "skip";
+
+export function getCourseExportMode(
+    course: Pick<Course, "status" | "excluded">,
+    droppedCourses: DroppedCourseExport = "skip",
+): CourseExportMode {
+    if (course.excluded) return "skip";
+    if (course.status === "Waitlisted") return "tentative";
+    if (course.status === "Dropped") {
+        return droppedCourses === "cancelled" ? "cancelled" : "skip";
+    }
+    return "confirmed";
+}
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+    byComponent: {},
+    byCourse: {},
+};
+
+/**
+ * Reminder for a class: the course override if there is one, otherwise the
+ * final exam setting for exams and the setting for its component ("OTHER" for
+ * components Quest added since) for classes
+ */
+export function getAlarmMinutes(
+    alarms: AlarmSettings,
+    courseCode: string,
+    session: Pick<ClassSession, "component" | "exam">,
+): AlarmMinutes {
+    if (courseCode in alarms.byCourse) return alarms.byCourse[courseCode];
+    if (session.exam) return alarms.exams ?? null;
+
+    const { component } = session;
+    const key = ComponentTypeSchema.safeParse(component).success
+        ? component
+        : "OTHER";
+    return alarms.byComponent[key] ?? null;
+}
+
+/**
+ * Display alarm the given number of minutes before the event starts,
+ * written in the largest whole unit (e.g. 1440 -> 1 day)
+ */
+function buildAlarm(minutes: number, description: string): IcsAlarm {
+    const value =
+        minutes > 0 && minutes % 1440 === 0
+            ? { days: minutes / 1440 }
+            : minutes > 0 && minutes % 60 === 0
+              ? { hours: minutes / 60 }
+              : { minutes };
+
+    return {
+        action: "DISPLAY",
+        description,
+        trigger: { type: "relative", value: { before: true, ...value } },
+    };
+}
+
+/**
+ * Letters and digits of an editable field, so it can't break up the UID
+ */
+function toUidPart(text: string): string {
+    return text.replace(/[^A-Za-z0-9]/g, "") || "none";
+}
+
+/**
+ * UID of a meeting's event, e.g. "winter2026-CS136-LEC-001-5432@quest-exporter".
+ * It is keyed on the term, course, component, section and class number, so it
+ * is unique whichever parser read the session: the weekly view and final exams
+ * have no class number (0), and a class number can repeat across terms.
+ * Final exams use "exam" in place of the component. Re-exports update events
+ * in place unless one of these is edited.
+ */
+export function getEventUid(
+    term: TermInfo,
     course: Course,
-    session: Course["sessions"][0],
+    session: ClassSession,
+    meetingIdx: number,
 ): string {
-    return template
-        .replace(/@code/g, course.courseCode)
-        .replace(/@section/g, session.section)
-        .replace(/@name/g, course.courseName)
-        .replace(/@type/g, session.component)
-        .replace(/@location/g, session.room)
-        .replace(/@prof/g, session.instructor);
+    const termId = `${term.season.toLowerCase()}${term.year}`;
+    const courseId = course.courseCode.replace(/\s+/g, "");
+    // Keep the first meeting's UID unchanged when more meetings are added
+    const suffix = meetingIdx === 0 ? "" : `-${meetingIdx + 1}`;
+    const kind = session.exam ? "exam" : toUidPart(session.component);
+    return `${termId}-${courseId}-${kind}-${toUidPart(session.section)}-${session.classNumber}${suffix}@quest-exporter`;
 }
 
 /**
- * Generate ICS calendar from parsed schedule
+ * Generate calendar events from parsed schedule
+ * @returns The events with the session each was generated from, warnings
+ * about classes that were skipped or could not be exported as written, and
+ * notices about classes left out on purpose (dropped courses, holidays and
+ * skip dates)
  */
-export function generateScheduleIcs(
+export function generateScheduleEvents(
     schedule: ParsedSchedule,
-    summaryTemplate: string,
-    descriptionTemplate: string,
-): { icsContent: string; warnings: string[] } {
-    const events: IcsEvent[] = [];
+    options: IcsExportOptions,
+): {
+    events: ScheduleEvent[];
+    sources: Map<ScheduleEvent, EventSource>;
+    warnings: string[];
+    notices: string[];
+} {
+    const events: ScheduleEvent[] = [];
+    const sources = new Map<ScheduleEvent, EventSource>();
     const warnings: string[] = [];
+    const notices: string[] = [];
+
+    // Problems in a template are reported once, the template still renders
+    const templates = {
+        summary: parseTemplate(options.summaryTemplate),
+        description: parseTemplate(options.descriptionTemplate),
+        examSummary: parseTemplate(options.examSummaryTemplate),
+    };
+    for (const [label, template] of [
+        ["Summary", templates.summary],
+        ["Description", templates.description],
+        ["Exam summary", templates.examSummary],
+    ] as const) {
+        for (const error of template.errors) {
+            warnings.push(`${label} template: ${error.message}`);
+        }
+    }
+
+    // Days without classes: holidays and breaks from the term calendar, then the user's own
+    const closures = getTermClosures(schedule.term);
+    if (!closures) {
+        warnings.push(
+            `No holiday calendar is bundled for ${getTermKey(schedule.term)}, holidays and reading week were not excluded`,
+        );
+    }
+    const skipDays = new Map<string, string>();
+    for (const { date, name } of closures ?? []) {
+        if (!skipDays.has(toDateKey(date))) skipDays.set(toDateKey(date), name);
+    }
+    for (const date of options.skipDates ?? []) {
+        if (!skipDays.has(toDateKey(date)))
+            skipDays.set(toDateKey(date), "extra skip date");
+    }
+    // Classes left out on each skipped day, to report in the notices
+    const excluded = new Map<string, { date: Date; classes: string[] }>();
+    // Classes in buildings missing from the directory, by building code
+    const unknownBuildings = new Map<string, string[]>();
+
+    for (const [courseIdx, course] of schedule.courses.entries()) {
+        const exportMode = getCourseExportMode(course, options.droppedCourses);
+        if (exportMode === "skip") {
+            if (!course.excluded) {
+                notices.push(
+                    `Skipped ${course.courseCode}: Course is ${course.status.toLowerCase()}`,
+                );
+            }
+            continue;
+        }
+        const color = getCourseColor(course, courseIdx);
+        const categories = getCourseCategories(course);
 
-    for (const course of schedule.courses) {
         for (const session of course.sessions) {
-            const dateRange = {
-                start: session.startDate,
-                end: session.endDate,
-            };
-
-            // Parse schedule pattern
-            const pattern = parseDaysAndTimes(session.daysAndTimes);
-            if (!pattern) {
-                // If it's just TBA, we skip silently or warn? Existing logic was warn if TBA or fail to parse.
-                if (session.daysAndTimes === "TBA") {
+            const isExam = Boolean(session.exam);
+
+            for (const [meetingIdx, meeting] of session.meetings.entries()) {
+                const dateRange = {
+                    start: meeting.startDate,
+                    end: meeting.endDate,
+                };
+
+                // Parse schedule pattern
+                const pattern = parseDaysAndTimes(meeting.daysAndTimes);
+                if (!pattern) {
+                    // If it's just TBA, we skip silently or warn? Existing logic was warn if TBA or fail to parse.
+                    if (meeting.daysAndTimes === "TBA") {
+                        warnings.push(
+                            `Skipped ${course.courseCode} (${session.component}): Time is TBA`,
+                        );
+                    } else {
+                        warnings.push(
+                            `Skipped ${course.courseCode} (${session.component}): Could not parse days and times "${meeting.daysAndTimes}"`,
+                        );
+                    }
+                    continue;
+                }
+
+                const days = getIcsDays(pattern.days);
+                if (days.length === 0) {
                     warnings.push(
-                        `Skipped ${course.courseCode} (${session.component}): Time is TBA`,
+                        `Skipped ${course.courseCode} (${session.component}): No valid days found in "${meeting.daysAndTimes}"`,
                     );
-                } else {
+                    continue;
+                }
+
+                // Every class day in the range. A session on a single date (a
+                // midterm, a one-day lab) happens on that date whatever its days say.
+                const dayIndexMap: Record<string, number> = {
+                    SU: 0,
+                    MO: 1,
+                    TU: 2,
+                    WE: 3,
+                    TH: 4,
+                    FR: 5,
+                    SA: 6,
+                };
+                const oneTime = isOneTimeMeeting(meeting);
+                const classDays = oneTime
+                    ? [new Date(dateRange.start)]
+                    : getClassDays(
+                          dateRange,
+                          days.map((d) => dayIndexMap[d]),
+                      );
+                if (classDays.length === 0) {
                     warnings.push(
-                        `Skipped ${course.courseCode} (${session.component}): Could not parse days and times "${session.daysAndTimes}"`,
+                        `Skipped ${course.courseCode} (${session.component}): No "${meeting.daysAndTimes}" class between its start and end dates`,
                     );
+                    continue;
                 }
-                continue;
-            }
 
-            const days = getIcsDays(pattern.days);
-            if (days.length === 0) {
-                warnings.push(
-                    `Skipped ${course.courseCode} (${session.component}): No valid days found in "${session.daysAndTimes}"`,
-                );
-                continue;
-            }
+                // One-off sessions are never dropped for holidays, the date was set on purpose
+                const heldDays: Date[] = [];
+                const skippedDays: Date[] = [];
+                for (const day of classDays) {
+                    if (!oneTime && skipDays.has(toDateKey(day))) {
+                        skippedDays.push(day);
+                    } else {
+                        heldDays.push(day);
+                    }
+                }
+                for (const day of skippedDays) {
+                    const key = toDateKey(day);
+                    const entry = excluded.get(key) ?? {
+                        date: day,
+                        classes: [],
+                    };
+                    entry.classes.push(
+                        `${course.courseCode} ${session.component}`,
+                    );
+                    excluded.set(key, entry);
+                }
+                if (heldDays.length === 0) {
+                    warnings.push(
+                        `Skipped ${course.courseCode} (${session.component}): Every class falls on a skipped day`,
+                    );
+                    continue;
+                }
 
-            // Find the first occurrence (first day in the range that matches)
-            const firstDay = dateRange.start;
-            const dayOfWeek = firstDay.getDay(); // 0=Sun, 1=Mon...
-            const dayIndexMap: Record<string, number> = {
-                SU: 0,
-                MO: 1,
-                TU: 2,
-                WE: 3,
-                TH: 4,
-                FR: 5,
-                SA: 6,
-            };
-
-            let minDaysAhead = 7;
-            for (const day of days) {
-                const targetDay = dayIndexMap[day];
-                const daysAhead = (targetDay - dayOfWeek + 7) % 7;
-                if (daysAhead < minDaysAhead) {
-                    minDaysAhead = daysAhead;
+                // Weekly rules start on the first class day and skip holidays with
+                // EXDATEs, explicit date lists only contain the days that are held
+                const recurrence = oneTime
+                    ? "one-time"
+                    : classDays.length > RDATE_MAX_OCCURRENCES
+                      ? "weekly"
+                      : "dates";
+                const startDay =
+                    recurrence === "weekly" ? classDays[0] : heldDays[0];
+
+                // If end time is before start time (e.g. crossing midnight), end the next day
+                const endDay = new Date(startDay);
+                const startMinutes =
+                    pattern.startTime.hour * 60 + pattern.startTime.minute;
+                const endMinutes =
+                    pattern.endTime.hour * 60 + pattern.endTime.minute;
+                if (endMinutes < startMinutes) {
+                    endDay.setDate(endDay.getDate() + 1);
                 }
-            }
 
-            const eventStart = new Date(dateRange.start);
-            eventStart.setDate(eventStart.getDate() + minDaysAhead);
-            eventStart.setHours(
-                pattern.startTime.hour,
-                pattern.startTime.minute,
-                0,
-                0,
-            );
-
-            const eventEnd = new Date(eventStart);
-            eventEnd.setHours(
-                pattern.endTime.hour,
-                pattern.endTime.minute,
-                0,
-                0,
-            );
-
-            // If end time is before start time (e.g. crossing midnight), add 1 day
-            if (eventEnd < eventStart) {
-                eventEnd.setDate(eventEnd.getDate() + 1);
-            }
+                // Times are Toronto wall-clock times, not the browser's zone
+                const eventStart = scheduleDateTime(
+                    startDay,
+                    pattern.startTime.hour,
+                    pattern.startTime.minute,
+                );
+                const eventEnd = scheduleDateTime(
+                    endDay,
+                    pattern.endTime.hour,
+                    pattern.endTime.minute,
+                );
+                const classStart = (day: Date) =>
+                    scheduleDateTime(
+                        day,
+                        pattern.startTime.hour,
+                        pattern.startTime.minute,
+                    );
 
-            const event: IcsEvent = {
-                uid: `${course.courseCode}-${session.classNumber}@quest-exporter`,
-                stamp: { date: new Date() },
-                start: {
-                    date: eventStart,
-                },
-                end: {
-                    date: eventEnd,
-                },
-                summary: applyTemplate(summaryTemplate, course, session),
-                description: applyTemplate(
-                    descriptionTemplate,
+                const templateContext = {
+                    term: schedule.term,
                     course,
                     session,
-                ),
-                location: session.room,
-                recurrenceRule: {
-                    frequency: "WEEKLY",
-                    until: { date: dateRange.end },
-                    byDay: days.map((d) => ({
-                        day: d as
-                            | "MO"
-                            | "TU"
-                            | "WE"
-                            | "TH"
-                            | "FR"
-                            | "SA"
-                            | "SU",
-                    })),
-                },
-            };
-
-            events.push(event);
+                    meeting,
+                };
+                const event: ScheduleEvent = {
+                    uid: getEventUid(
+                        schedule.term,
+                        course,
+                        session,
+                        meetingIdx,
+                    ),
+                    stamp: { date: new Date() },
+                    start: eventStart,
+                    end: eventEnd,
+                    summary: renderTemplate(
+                        isExam ? templates.examSummary : templates.summary,
+                        templateContext,
+                    ),
+                    description: renderTemplate(
+                        templates.description,
+                        templateContext,
+                    ),
+                    location: describeRoom(meeting.room),
+                    categories: categories.length > 0 ? categories : undefined,
+                    nonStandard: {
+                        color,
+                        appleColor: color,
+                        outlookColor: color,
+                        funambolColor: color,
+                    },
+                };
+
+                const room = parseRoom(meeting.room);
+                if (room?.building) {
+                    const { building } = room;
+                    event.geo = `${building.latitude};${building.longitude}`;
+                    event.nonStandard = {
+                        ...event.nonStandard,
+                        structuredLocation: {
+                            building,
+                            title: `${building.code} ${room.roomNumber}`,
+                        },
+                    };
+                } else if (room) {
+                    const classes =
+                        unknownBuildings.get(room.buildingCode) ?? [];
+                    classes.push(`${course.courseCode} ${session.component}`);
+                    unknownBuildings.set(room.buildingCode, classes);
+                }
+
+                if (exportMode === "tentative") {
+                    event.status = "TENTATIVE";
+                    event.summary = `${WAITLISTED_SUMMARY_MARKER} ${event.summary}`;
+                } else if (exportMode === "cancelled") {
+                    event.status = "CANCELLED";
+                }
+
+                // A calendar that still has a dropped class must not remind of it
+                const alarmMinutes =
+                    exportMode === "cancelled"
+                        ? null
+                        : getAlarmMinutes(
+                              options.alarms ?? DEFAULT_ALARM_SETTINGS,
+                              course.courseCode,
+                              session,
+                          );
+                if (alarmMinutes !== null) {
+                    event.alarms = [buildAlarm(alarmMinutes, event.summary)];
+                }
+
+                if (recurrence === "weekly") {
+                    // UNTIL must be in UTC, use the end of the last day in Toronto
+                    // so a class on the final day is still included
+                    event.recurrenceRule = {
+                        frequency: "WEEKLY",
+                        until: {
+                            date: scheduleDateTime(dateRange.end, 23, 59).date,
+                        },
+                        byDay: days.map((d) => ({
+                            day: d as
+                                | "MO"
+                                | "TU"
+                                | "WE"
+                                | "TH"
+                                | "FR"
+                                | "SA"
+                                | "SU",
+                        })),
+                    };
+                    if (skippedDays.length > 0) {
+                        event.exceptionDates = skippedDays.map(classStart);
+                    }
+                } else if (recurrence === "dates" && heldDays.length > 1) {
+                    event.nonStandard = {
+                        ...event.nonStandard,
+                        recurrenceDates: heldDays.slice(1).map(classStart),
+                    };
+                }
+
+                events.push(event);
+                sources.set(event, { course, session, meeting });
+            }
         }
     }
 
+    for (const [key, { date, classes }] of [...excluded].sort(([a], [b]) =>
+        a.localeCompare(b),
+    )) {
+        const label = date.toLocaleDateString("en-CA", {
+            weekday: "short",
+            month: "short",
+            day: "numeric",
+        });
+        notices.push(
+            `Excluded ${skipDays.get(key)} (${label}): ${[...new Set(classes)].join(", ")}`,
+        );
+    }
+
+    for (const [code, classes] of unknownBuildings) {
+        warnings.push(
+            `Unknown building "${code}" (${[...new Set(classes)].join(", ")}): the room was exported as written, without an address`,
+        );
+    }
+
+    return { events, sources, warnings, notices };
+}
+
+/**
+ * Serializes events into a calendar with the Toronto VTIMEZONE
+ * @param options.method iTIP method, e.g. "CANCEL" for a file that removes events
+ * @param options.name Calendar name shown by clients (X-WR-CALNAME)
+ */
+export function buildIcsCalendar(
+    events: ScheduleEvent[],
+    options: { method?: IcsCalendar["method"]; name?: string } = {},
+): string {
     const calendar: IcsCalendar = {
         prodId: "-//Quest Schedule Exporter//EN",
         version: "2.0",
+        method: options.method,
+        name: options.name,
+        timezones: [SCHEDULE_VTIMEZONE],
         events,
     };
 
-    return { icsContent: generateIcsCalendar(calendar), warnings };
+    return generateIcsCalendar<EventNonStandard>(calendar, {
+        nonStandard: EVENT_NON_STANDARD,
+    });
+}
+
+/**
+ * Serializes a single event the same way `buildIcsCalendar` would
+ */
+export function buildIcsEvent(event: ScheduleEvent): string {
+    return generateIcsEvent<EventNonStandard>(event, {
+        timezones: [SCHEDULE_VTIMEZONE],
+        nonStandard: EVENT_NON_STANDARD,
+    });
+}
+
+/**
+ * Generate ICS calendar from parsed schedule
+ */
+export function generateScheduleIcs(
+    schedule: ParsedSchedule,
+    options: IcsExportOptions,
+): { icsContent: string; warnings: string[]; notices: string[] } {
+    const { events, warnings, notices } = generateScheduleEvents(
+        schedule,
+        options,
+    );
+    return { icsContent: buildIcsCalendar(events), warnings, notices };
+}
+
+/**
+ * File name for a term's calendar, e.g. "schedule_winter_2026.ics"
+ * @param suffix Added after the term, e.g. "update" -> "schedule_winter_2026_update.ics"
+ */
+export function getScheduleFilename(
+    term: TermInfo,
+    extension = "ics",
+    suffix?: string,
+): string {
+    const base = `schedule_${term.season.toLocaleLowerCase()}_${term.year}`;
+    return `${suffix ? `${base}_${suffix}` : base}.${extension}`;
 }
 
 /**
  * Trigger browser download of ICS file
  */
 export function downloadIcs(icsContent: string, filename: string): void {
-    const blob = new Blob([icsContent], {
-        type: "text/calendar",
-    });
+    downloadFile(icsContent, filename, "text/calendar");
+}
+
+/**
+ * Trigger browser download of any file, e.g. a zip of calendars
+ */
+export function downloadFile(
+    content: BlobPart,
+    filename: string,
+    type: string,
+): void {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
 
     const link = document.createElement("a");
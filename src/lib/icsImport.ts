@@ -0,0 +1,404 @@
+import { convertIcsCalendar, type IcsDateObject, type IcsEvent } from "ts-ics";
+import { parseRoom } from "./buildings";
+import { COURSE_COLORS, getCourseColor } from "./courseColors";
+import { WAITLISTED_SUMMARY_MARKER } from "./icsExport";
+import { type ParseResult, ParserError, validateParseResult } from "./parser";
+import { unfoldIcs } from "./scheduleDiff";
+import {
+    type ClassMeeting,
+    ComponentTypeSchema,
+    type Course,
+    type CourseStatus,
+    type ParseDiagnostic,
+    type TermInfo,
+} from "./schema";
+import { fromScheduleDateTime } from "./timezone";
+
+/**
+ * Day codes as Quest writes them, indexed like `Date.getDay()`
+ */
+const DAY_CODES = ["Su", "M", "T", "W", "Th", "F", "S"];
+const ICS_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// UIDs written by `getEventUid`, e.g. "winter2026-CS136-LEC-001-5432-2@quest-exporter"
+// for the second meeting, "winter2026-CS136-exam-001-0@quest-exporter" for a final exam
+const exporterUidRegex =
+    /^([a-z]+)(\d{4})-([A-Z]{2,10})(\d{1,4}[A-Z]?)-([A-Za-z0-9]+)-([A-Za-z0-9]+)-(\d+)(?:-(\d+))?@quest-exporter$/i;
+// A course code anywhere in a summary, e.g. "CS 136 LEC in MC 2065"
+const courseCodeRegex = /\b([A-Z]{2,10} \d{1,4}[A-Z]?)\b/;
+// A Quest component anywhere in a summary, e.g. "CS 136 LEC in MC 2065"
+const componentRegex = new RegExp(
+    `\\b(${ComponentTypeSchema.options.join("|")})\\b`,
+);
+
+/**
+ * What one event says about the class it was exported from
+ */
+interface ImportedMeeting {
+    term: TermInfo | null;
+    courseCode: string;
+    courseName: string;
+    status: CourseStatus;
+    color?: string;
+    categories?: string[];
+    classNumber: number;
+    section: string;
+    exam: boolean;
+    component: string;
+    /** Position among the section's meetings, from the UID */
+    meetingIdx: number | null;
+    meeting: ClassMeeting;
+}
+
+/**
+ * Properties ts-ics does not parse, read from the raw text by UID
+ */
+interface RawEventProperties {
+    recurrenceDays: Date[];
+    color?: string;
+}
+
+function readRawProperties(ics: string): Map<string, RawEventProperties> {
+    const byUid = new Map<string, RawEventProperties>();
+    for (const block of unfoldIcs(ics).split("BEGIN:VEVENT").slice(1)) {
+        const lines = block.split("END:VEVENT")[0].split(/\r?\n/);
+        const uid = lines.find((l) => l.startsWith("UID:"))?.slice(4);
+        if (!uid) continue;
+
+        const properties: RawEventProperties = { recurrenceDays: [] };
+        for (const line of lines) {
+            const value = line.slice(line.indexOf(":") + 1);
+            if (/^RDATE[;:]/.test(line)) {
+                for (const match of value.matchAll(/(\d{4})(\d{2})(\d{2})/g)) {
+                    const [, year, month, day] = match.map(Number);
+                    properties.recurrenceDays.push(
+                        new Date(year, month - 1, day),
+                    );
+                }
+            } else if (/^COLOR[;:]/.test(line)) {
+                properties.color = value.trim().toLowerCase();
+            }
+        }
+        byUid.set(uid, properties);
+    }
+    return byUid;
+}
+
+/**
+ * Calendar day of a date or date-time, in Toronto for date-times
+ */
+function toScheduleDay(value: IcsDateObject): Date {
+    if (value.type === "DATE") {
+        return new Date(
+            value.date.getUTCFullYear(),
+            value.date.getUTCMonth(),
+            value.date.getUTCDate(),
+        );
+    }
+    return fromScheduleDateTime(value).day;
+}
+
+/**
+ * Formats a time the way Quest does, e.g. "8:30AM"
+ */
+function formatTime(hour: number, minute: number): string {
+    const suffix = hour < 12 ? "AM" : "PM";
+    return `${hour % 12 || 12}:${String(minute).padStart(2, "0")}${suffix}`;
+}
+
+/**
+ * Last day of a rule limited by COUNT, counting the class days from the start
+ */
+function getCountEndDay(start: Date, weekdays: number[], count: number): Date {
+    const day = new Date(start);
+    let seen = 0;
+    for (;;) {
+        if (weekdays.includes(day.getDay()) && ++seen >= count) return day;
+        day.setDate(day.getDate() + 1);
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Reads the class behind one event. Events exported by this tool are read
+ * from their UID and the default templates, other class calendars from their
+ * summary and times.
+ * @returns The class, or the reason the event was skipped
+ */
+function readEvent(
+    event: IcsEvent,
+    raw: RawEventProperties | undefined,
+): ImportedMeeting | string {
+    if (event.start.type === "DATE") return "All-day events are not classes";
+    if (!event.end) return "The event has no end time";
+
+    const uid = event.uid.match(exporterUidRegex);
+    const summary = event.summary.replace(WAITLISTED_SUMMARY_MARKER, "").trim();
+    const description = event.description ?? "";
+
+    const courseCode =
+        (uid ? `${uid[3].toUpperCase()} ${uid[4].toUpperCase()}` : null) ??
+        summary.match(courseCodeRegex)?.[1] ??
+        event.categories
+            ?.map((c) => c.match(courseCodeRegex)?.[1])
+            .find(Boolean);
+    if (!courseCode) return "Could not find a course code in the title";
+
+    // An exam's UID has "exam" in place of the component of its section,
+    // taken from the section once the courses are rebuilt
+    const isExam = uid?.[5] === "exam";
+    const component = isExam
+        ? "LEC"
+        : (uid?.[5] ??
+          summary.match(componentRegex)?.[1] ??
+          description.match(componentRegex)?.[1] ??
+          "LEC");
+
+    // The default description is "@code-@section: @name (@type)[ in @location][ with @instructor]"
+    const details = description.match(
+        new RegExp(`^${escapeRegExp(courseCode)}-(\\w+): (.*?) \\((\\w+)\\)`),
+    );
+    const section = uid?.[6] ?? details?.[1] ?? "001";
+    const courseName = details?.[2] ?? "";
+    const instructor = description.match(/ with (.+)$/)?.[1] ?? "";
+
+    // Days and dates
+    const start = fromScheduleDateTime(event.start);
+    const end = fromScheduleDateTime(event.end);
+    const rule = event.recurrenceRule;
+    const recurrenceDays = raw?.recurrenceDays ?? [];
+    let weekdays: number[];
+    let endDate: Date;
+    if (rule) {
+        if (rule.frequency !== "WEEKLY") {
+            return `Only weekly repeating events can be imported, not ${rule.frequency.toLowerCase()}`;
+        }
+        weekdays = rule.byDay?.length
+            ? rule.byDay.map((d) => ICS_DAYS.indexOf(d.day))
+            : [start.day.getDay()];
+        if (rule.until) {
+            endDate = toScheduleDay(rule.until);
+        } else if (rule.count) {
+            endDate = getCountEndDay(start.day, weekdays, rule.count);
+        } else {
+            return "The event repeats without an end date";
+        }
+    } else {
+        const days = [start.day, ...recurrenceDays];
+        weekdays = [...new Set(days.map((d) => d.getDay()))];
+        endDate = new Date(Math.max(...days.map((d) => d.getTime())));
+    }
+
+    const dayCodes = [1, 2, 3, 4, 5, 6, 0]
+        .filter((d) => weekdays.includes(d))
+        .map((d) => DAY_CODES[d])
+        .join("");
+
+    // Exported locations are "MC 2065, <building name>, <address>", keep the room
+    const location = event.location?.trim() ?? "";
+    const firstPart = location.split(",")[0].trim();
+    const room = parseRoom(firstPart)?.building ? firstPart : location || "TBA";
+
+    const color = COURSE_COLORS.find((c) => c.name === raw?.color)?.name;
+    const categories =
+        event.categories?.length &&
+        !(event.categories.length === 1 && event.categories[0] === courseCode)
+            ? event.categories
+            : undefined;
+
+    return {
+        term: uid
+            ? {
+                  season:
+                      uid[1][0].toUpperCase() + uid[1].slice(1).toLowerCase(),
+                  year: uid[2],
+                  level: "Unknown",
+                  institution: "University of Waterloo",
+              }
+            : null,
+        courseCode,
+        courseName,
+        status:
+            event.status === "TENTATIVE"
+                ? "Waitlisted"
+                : event.status === "CANCELLED"
+                  ? "Dropped"
+                  : "Enrolled",
+        color,
+        categories,
+        classNumber: uid ? Number.parseInt(uid[7], 10) : 0,
+        section,
+        component,
+        exam: isExam,
+        meetingIdx: uid ? (uid[8] ? Number.parseInt(uid[8], 10) - 1 : 0) : null,
+        meeting: {
+            daysAndTimes: `${dayCodes} ${formatTime(start.hour, start.minute)} - ${formatTime(end.hour, end.minute)}`,
+            room,
+            instructor,
+            startDate: start.day,
+            endDate,
+        },
+    };
+}
+
+/**
+ * Term of a calendar without exporter UIDs: from its name, e.g.
+ * "CS 136 (Winter 2026)", otherwise from the month of the first class
+ */
+function guessTerm(calendarName: string | undefined, firstDay: Date): TermInfo {
+    const named = calendarName?.match(/\b(Winter|Spring|Fall) (\d{4})\b/);
+    const month = firstDay.getMonth();
+    return {
+        season:
+            named?.[1] ??
+            (month < 4 ? "Winter" : month < 8 ? "Spring" : "Fall"),
+        year: named?.[2] ?? String(firstDay.getFullYear()),
+        level: "Unknown",
+        institution: "University of Waterloo",
+    };
+}
+
+/**
+ * Parses an iCalendar file back into a schedule, e.g. one exported earlier.
+ *
+ * Weekly rules become "Days Time - Time" meetings over the rule's date range,
+ * and single events one-time meetings. Skipped dates (EXDATE) are not kept:
+ * holidays are excluded again when exporting.
+ * @param ics Contents of the .ics file
+ * @returns ParsedSchedule object with term info and courses, plus diagnostics
+ * @throws ParserError if the text is not a calendar or has no class events
+ */
+export function parseIcsSchedule(ics: string): ParseResult {
+    if (!/BEGIN:VCALENDAR/.test(ics)) {
+        const message = "The file is not an iCalendar (.ics) file";
+        throw new ParserError(message, [
+            { severity: "error", code: "not-icalendar", message },
+        ]);
+    }
+
+    let calendar: ReturnType<typeof convertIcsCalendar>;
+    try {
+        calendar = convertIcsCalendar(undefined, ics);
+    } catch (err) {
+        const message = `Could not read the calendar: ${err instanceof Error ? err.message : String(err)}`;
+        throw new ParserError(message, [
+            { severity: "error", code: "invalid-icalendar", message },
+        ]);
+    }
+
+    const rawProperties = readRawProperties(ics);
+    const diagnostics: ParseDiagnostic[] = [];
+    const imported: ImportedMeeting[] = [];
+    for (const event of calendar.events ?? []) {
+        const result = readEvent(event, rawProperties.get(event.uid));
+        if (typeof result === "string") {
+            diagnostics.push({
+                severity: "warning",
+                code: "skipped-event",
+                message: `${result}, skipped`,
+                text: event.summary,
+            });
+        } else {
+            imported.push(result);
+        }
+    }
+
+    if (imported.length === 0) {
+        const message = "No class events found in the calendar";
+        throw new ParserError(message, [
+            ...diagnostics,
+            { severity: "error", code: "no-events", message },
+        ]);
+    }
+
+    const term =
+        imported.find((m) => m.term)?.term ??
+        guessTerm(
+            calendar.name,
+            new Date(
+                Math.min(...imported.map((m) => m.meeting.startDate.getTime())),
+            ),
+        );
+
+    // Group the meetings back into courses and sections
+    const courses: Course[] = [];
+    for (const m of imported) {
+        let course = courses.find((c) => c.courseCode === m.courseCode);
+        if (!course) {
+            course = {
+                courseCode: m.courseCode,
+                courseName: m.courseName,
+                status: m.status,
+                // Not in the calendar, left for the user to fill in
+                units: 0,
+                grading: "Unknown",
+                sessions: [],
+                color: m.color,
+                categories: m.categories,
+            };
+            courses.push(course);
+        }
+
+        let session = course.sessions.find(
+            (s) =>
+                s.section === m.section &&
+                s.component === m.component &&
+                s.classNumber === m.classNumber &&
+                Boolean(s.exam) === m.exam,
+        );
+        if (!session) {
+            session = {
+                classNumber: m.classNumber,
+                section: m.section,
+                component: m.component,
+                meetings: [],
+                ...(m.exam && { exam: true }),
+            };
+            course.sessions.push(session);
+        }
+
+        if (m.meetingIdx !== null && !(m.meetingIdx in session.meetings)) {
+            session.meetings[m.meetingIdx] = m.meeting;
+        } else {
+            session.meetings.push(m.meeting);
+        }
+    }
+    for (const [courseIdx, course] of courses.entries()) {
+        // Meetings placed by UID leave holes if one was skipped
+        for (const session of course.sessions) {
+            session.meetings = session.meetings.filter(Boolean);
+            if (session.exam) {
+                session.component =
+                    course.sessions.find(
+                        (s) => !s.exam && s.section === session.section,
+                    )?.component ?? session.component;
+            }
+        }
+        // The palette colour for the course's position is not a user pick
+        if (course.color === getCourseColor({}, courseIdx).name) {
+            course.color = undefined;
+        }
+    }
+
+    if ((calendar.events ?? []).some((e) => e.exceptionDates?.length)) {
+        diagnostics.push({
+            severity: "info",
+            code: "exception-dates",
+            message:
+                "Skipped dates in the calendar were not imported, holidays are left out again when exporting",
+        });
+    }
+    if (courses.some((c) => c.units === 0)) {
+        diagnostics.push({
+            severity: "info",
+            code: "missing-course-details",
+            message:
+                "Calendars have no units or grading basis, they were left empty",
+        });
+    }
+
+    return validateParseResult({ term, courses }, diagnostics);
+}
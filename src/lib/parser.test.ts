@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { parseSchedule } from "./parser";
+
+/**
+ * The same List View schedule as each browser copies it: Chrome puts every
+ * cell on its own line, Firefox copies whole rows as tab-separated lines, and
+ * Safari mixes both with trailing tabs and CRLF line ends.
+ */
+const BROWSERS = ["chrome", "firefox", "safari"] as const;
+
+function readFixture(browser: string): string {
+    return readFileSync(
+        new URL(`./__fixtures__/list-view-${browser}.txt`, import.meta.url),
+        "utf8",
+    );
+}
+
+describe("parseSchedule row layouts", () => {
+    test.each(BROWSERS)("parses the %s copy", (browser) => {
+        const { schedule, diagnostics } = parseSchedule(readFixture(browser));
+
+        expect(diagnostics).toEqual([]);
+        expect(schedule.term).toEqual({
+            season: "Winter",
+            year: "2026",
+            level: "Undergraduate",
+            institution: "University of Waterloo",
+        });
+        expect(schedule.courses.map((c) => c.courseCode)).toEqual([
+            "CS 136",
+            "MATH 138",
+            "PHYS 121",
+        ]);
+        expect(schedule.courses[0].sessions).toEqual([
+            {
+                classNumber: 5432,
+                section: "001",
+                component: "LEC",
+                meetings: [
+                    {
+                        daysAndTimes: "TTh 10:00AM - 11:20AM",
+                        room: "MC 2065",
+                        instructor: "Jane Doe",
+                        startDate: new Date(2026, 0, 5),
+                        endDate: new Date(2026, 3, 6),
+                    },
+                    {
+                        daysAndTimes: "F 10:30AM - 11:20AM",
+                        room: "MC 4020",
+                        instructor: "Jane Doe",
+                        startDate: new Date(2026, 0, 5),
+                        endDate: new Date(2026, 3, 6),
+                    },
+                ],
+            },
+            {
+                classNumber: 5433,
+                section: "101",
+                component: "TUT",
+                meetings: [
+                    {
+                        daysAndTimes: "M 3:30PM - 4:20PM",
+                        room: "MC 4045",
+                        instructor: "TBA",
+                        startDate: new Date(2026, 0, 5),
+                        endDate: new Date(2026, 3, 6),
+                    },
+                ],
+            },
+        ]);
+        expect(schedule.courses[2].status).toBe("Waitlisted");
+    });
+
+    test("every browser's copy parses to the same schedule", () => {
+        const [chrome, ...others] = BROWSERS.map(
+            (browser) => parseSchedule(readFixture(browser)).schedule,
+        );
+        for (const schedule of others) {
+            expect(schedule).toEqual(chrome);
+        }
+    });
+});
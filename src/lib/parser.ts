@@ -1,26 +1,37 @@
-import type { Course, CourseStatus, ParsedSchedule, TermInfo } from "./schema";
+import {
+    type ClassSession,
+    type Course,
+    type CourseStatus,
+    type ParseDiagnostic,
+    type ParsedSchedule,
+    ParsedScheduleSchema,
+    type TermInfo,
+} from "./schema";
 
 export type DateRange = { start: Date; end: Date };
 
+/**
+ * Parse a single Quest date (DD/MM/YYYY) like "05/01/2026"
+ */
+export function parseQuestDate(str: string): Date | null {
+    const match = str.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    if (!match) return null;
+    return new Date(
+        Number.parseInt(match[3], 10),
+        Number.parseInt(match[2], 10) - 1, // Month is 2nd group
+        Number.parseInt(match[1], 10), // Day is 1st group
+    );
+}
+
 /**
  * Parse date range from Quest (DD/MM/YYYY) like "05/01/2026 - 06/04/2026"
  */
-function parseQuestDateRange(dateStr: string): DateRange | null {
+export function parseQuestDateRange(dateStr: string): DateRange | null {
     const parts = dateStr.split(" - ").map((s) => s.trim());
     if (parts.length !== 2) return null;
 
-    const parseDate = (str: string): Date | null => {
-        const match = str.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
-        if (!match) return null;
-        return new Date(
-            Number.parseInt(match[3], 10),
-            Number.parseInt(match[2], 10) - 1, // Month is 2nd group
-            Number.parseInt(match[1], 10), // Day is 1st group
-        );
-    };
-
-    const start = parseDate(parts[0]);
-    const end = parseDate(parts[1]);
+    const start = parseQuestDate(parts[0]);
+    const end = parseQuestDate(parts[1]);
     if (!start || !end) return null;
 
     return { start, end };
@@ -43,57 +54,238 @@ export function parseUserDateRange(dateStr: string): DateRange | null {
 }
 
 export class ParserError extends Error {
-    constructor(message: string) {
+    /** Everything found before parsing gave up, including the fatal error itself */
+    readonly diagnostics: ParseDiagnostic[];
+
+    constructor(message: string, diagnostics: ParseDiagnostic[] = []) {
         super(message);
         this.name = "ParserError";
+        this.diagnostics = diagnostics;
     }
 }
 
+/**
+ * The result of parsing pasted Quest data.
+ */
+export interface ParseResult {
+    schedule: ParsedSchedule;
+    diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Non-empty input lines, each with its 1-based line number in the original input.
+ */
+export interface SourceLines {
+    lines: string[];
+    lineNumbers: number[];
+}
+
+/**
+ * Splits input into non-empty lines, remembering where each came from.
+ * @param trim How to clean up each line before checking it is non-empty
+ */
+export function splitSourceLines(
+    input: string,
+    trim: (line: string) => string = (l) => l.trim(),
+): SourceLines {
+    const lines: string[] = [];
+    const lineNumbers: number[] = [];
+
+    input.split("\n").forEach((raw, idx) => {
+        const line = trim(raw);
+        if (line.trim().length === 0) return;
+        lines.push(line);
+        lineNumbers.push(idx + 1);
+    });
+
+    return { lines, lineNumbers };
+}
+
+/**
+ * Validates a parsed schedule against `ParsedScheduleSchema`.
+ * @throws ParserError carrying the collected diagnostics if the schedule is invalid
+ */
+export function validateParseResult(
+    schedule: ParsedSchedule,
+    diagnostics: ParseDiagnostic[],
+): ParseResult {
+    const result = ParsedScheduleSchema.safeParse(schedule);
+    if (result.success) {
+        return { schedule: result.data, diagnostics };
+    }
+
+    const issues: ParseDiagnostic[] = result.error.issues.map((issue) => {
+        // e.g. ["courses", 0, "sessions", 1, "classNumber"]
+        const courseIdx = issue.path[0] === "courses" ? issue.path[1] : null;
+        const course =
+            typeof courseIdx === "number"
+                ? schedule.courses[courseIdx]
+                : undefined;
+        return {
+            severity: "error",
+            code: "invalid-schedule",
+            message: `${issue.path.join(".")}: ${issue.message}`,
+            courseCode: course?.courseCode,
+        };
+    });
+
+    throw new ParserError("The parsed schedule is invalid", [
+        ...diagnostics,
+        ...issues,
+    ]);
+}
+
+// Matches the term header line "Season Year | Level | Institution"
+export const termHeaderRegex = /^[A-Z][a-z]+ \d{4} \| .+ \| .+$/;
+
+/**
+ * Splits input into one section per term header line, for pastes that span several terms.
+ * Lines before the first header belong to the first section. Lines outside a section are
+ * blanked rather than removed, so diagnostics keep pointing at the original line numbers.
+ * @returns One input string per term, or the whole input if there is at most one header
+ */
+export function splitTermSections(input: string): string[] {
+    const rawLines = input.split("\n");
+    const headerIndices = rawLines
+        .map((line, idx) => (termHeaderRegex.test(line.trim()) ? idx : -1))
+        .filter((idx) => idx !== -1);
+
+    if (headerIndices.length <= 1) return [input];
+
+    return headerIndices.map((headerIdx, n) => {
+        const start = n === 0 ? 0 : headerIdx;
+        const end = headerIndices[n + 1] ?? rawLines.length;
+        return rawLines
+            .map((line, idx) => (idx >= start && idx < end ? line : ""))
+            .join("\n");
+    });
+}
+
+/**
+ * Finds the term header line ("Season Year | Level | Institution") and parses it.
+ * e.g. "Winter 2026 | Undergraduate | University of Waterloo"
+ * @param lines Trimmed, non-empty input lines
+ * @returns The term info and the index of the header line
+ * @throws ParserError (with a "missing-term" diagnostic) if no term header line is present
+ */
+export function parseTermHeader(lines: string[]): {
+    term: TermInfo;
+    index: number;
+} {
+    const index = lines.findIndex((l) => termHeaderRegex.test(l));
+
+    if (index === -1) {
+        const message =
+            "Could not find term information line (e.g., 'Winter 2026 | ...')";
+        throw new ParserError(message, [
+            { severity: "error", code: "missing-term", message },
+        ]);
+    }
+
+    const [seasonYear, level, institution] = lines[index].split(" | ");
+    const [season, year] = seasonYear.split(" ");
+    return { term: { season, year, level, institution }, index };
+}
+
+// Regex patterns shared by the List View parsers
+// Matches "CS 136 - Elementary..." or "JS 101 - ..."
+export const courseHeaderRegex = /^([A-Z]{2,10}\s\d{1,4}[A-Z]?) - (.+)$/;
+// Matches "Status Units Grading" header
+export const statusHeaderRegex = /^Status\s+Units\s+Grading/;
+// Matches "Class Nbr Section Component" header
+export const sessionHeaderRegex = /^Class Nbr\s+Section\s+Component/;
+// Matches start of a session row (class number)
+export const classNumberRegex = /^\d{4,5}$/;
+// Matches the first cell of a continuation row ("MWF 10:30AM - 11:20AM" or "TBA")
+export const meetingStartRegex =
+    /^(TBA|[A-Za-z]+\s+\d{1,2}:\d{2}[AP]M\s*-\s*\d{1,2}:\d{2}[AP]M)$/;
+
+/**
+ * Brings every copy layout of the List View to one cell per line.
+ *
+ * Chrome puts each cell of a class row on its own line, while Firefox and Safari
+ * copy a whole row as one tab-separated line, and a paste can mix both. Data rows
+ * are split on tabs and their blank cells dropped, which is what the per-line
+ * layout looks like too. Header rows stay whole since their regexes match the full row.
+ */
+export function normalizeRowLayout(source: SourceLines): SourceLines {
+    const lines: string[] = [];
+    const lineNumbers: number[] = [];
+
+    source.lines.forEach((line, idx) => {
+        const isHeader =
+            statusHeaderRegex.test(line) || sessionHeaderRegex.test(line);
+        const cells =
+            line.includes("\t") && !isHeader
+                ? line
+                      .split("\t")
+                      .map((c) => c.trim())
+                      .filter((c) => c.length > 0)
+                : [line];
+
+        for (const cell of cells) {
+            lines.push(cell);
+            lineNumbers.push(source.lineNumbers[idx]);
+        }
+    });
+
+    return { lines, lineNumbers };
+}
+
 /**
  * Parses the raw text output from Quest "My Class Schedule" list view.
  * Uses a keyword-driven state machine approach for robustness.
+ * Accepts one cell per line, tab-separated rows, or a mix of both.
+ * Rows that can't be read are skipped and reported as diagnostics.
  * @param input Raw text string from Quest
- * @returns ParsedSchedule object with term info and courses
+ * @returns ParsedSchedule object with term info and courses, plus diagnostics
  * @throws ParserError if input is invalid or structure is unrecognized
  */
-export function parseSchedule(input: string): ParsedSchedule {
-    const lines = input
-        .split("\n")
-        .map((l) => l.trim())
-        .filter((l) => l.length > 0);
+export function parseSchedule(input: string): ParseResult {
+    const { lines, lineNumbers } = normalizeRowLayout(splitSourceLines(input));
+    const diagnostics: ParseDiagnostic[] = [];
 
     // 1. Find Term Info (Header)
-    // Looking for "Season Year | Level | Institution"
-    // e.g. "Winter 2026 | Undergraduate | University of Waterloo"
-    const termLineIndex = lines.findIndex((l) =>
-        /^[A-Z][a-z]+ \d{4} \| .+ \| .+$/.test(l),
-    );
-
-    if (termLineIndex === -1) {
-        throw new ParserError(
-            "Could not find term information line (e.g., 'Winter 2026 | ...')",
-        );
-    }
-
-    const termLine = lines[termLineIndex];
-    const [seasonYear, level, institution] = termLine.split(" | ");
-    const [season, year] = seasonYear.split(" ");
-    const term: TermInfo = { season, year, level, institution };
+    const { term, index: termLineIndex } = parseTermHeader(lines);
 
     // 2. State Machine for parsing courses
     const courses: Course[] = [];
     let currentCourse: Partial<Course> | null = null;
+    let currentCourseIndex = -1;
+    let currentSession: ClassSession | null = null;
     let inSessionBlock = false;
 
-    // Regex patterns
-    // Matches "CS 136 - Elementary..." or "JS 101 - ..."
-    const courseHeaderRegex = /^([A-Z]{2,10}\s\d{1,4}[A-Z]?) - (.+)$/;
-    // Matches "Status Units Grading" header
-    const statusHeaderRegex = /^Status\s+Units\s+Grading/;
-    // Matches "Class Nbr Section Component" header
-    const sessionHeaderRegex = /^Class Nbr\s+Section\s+Component/;
-    // Matches start of a session row (class number)
-    const classNumberRegex = /^\d{4,5}$/;
+    const report = (
+        severity: ParseDiagnostic["severity"],
+        code: string,
+        message: string,
+        lineIndex: number,
+        classNumber?: number,
+    ) => {
+        diagnostics.push({
+            severity,
+            code,
+            message,
+            line: lineNumbers[lineIndex],
+            text: lines[lineIndex],
+            courseCode: currentCourse?.courseCode,
+            classNumber,
+        });
+    };
+
+    const pushCurrentCourse = () => {
+        if (!currentCourse?.courseCode) return;
+        if (currentCourse.sessions?.length === 0) {
+            // Dropped courses usually have no class rows left
+            report(
+                currentCourse.status === "Dropped" ? "info" : "warning",
+                "course-without-sessions",
+                "No class sessions found for this course",
+                currentCourseIndex,
+            );
+        }
+        courses.push(currentCourse as Course);
+    };
 
     for (let i = termLineIndex + 1; i < lines.length; i++) {
         const line = lines[i];
@@ -102,11 +294,7 @@ export function parseSchedule(input: string): ParsedSchedule {
         const courseMatch = line.match(courseHeaderRegex);
         if (courseMatch) {
             // Push previous course if valid
-            if (currentCourse) {
-                if (currentCourse.courseCode) {
-                    courses.push(currentCourse as Course);
-                }
-            }
+            pushCurrentCourse();
 
             // Init new course
             currentCourse = {
@@ -118,6 +306,8 @@ export function parseSchedule(input: string): ParsedSchedule {
                 units: 0,
                 grading: "Unknown",
             };
+            currentCourseIndex = i;
+            currentSession = null;
             inSessionBlock = false;
             continue;
         }
@@ -126,6 +316,7 @@ export function parseSchedule(input: string): ParsedSchedule {
 
         // CHECK: Status/Units/Grading Block
         if (statusHeaderRegex.test(line)) {
+            currentSession = null;
             inSessionBlock = false;
             // Look ahead for values. We expect:
             // Status (Enrolled/Dropped/...)
@@ -155,6 +346,13 @@ export function parseSchedule(input: string): ParsedSchedule {
                             i += 1;
                         }
                     }
+                } else {
+                    report(
+                        "warning",
+                        "unrecognized-status",
+                        `Expected Enrolled, Dropped or Waitlisted, assuming ${currentCourse.status}`,
+                        i + 1,
+                    );
                 }
             }
             continue;
@@ -187,43 +385,100 @@ export function parseSchedule(input: string): ParsedSchedule {
                 if (section.length <= 5 && /^[A-Z]{3,4}$/.test(component)) {
                     const dateRange = parseQuestDateRange(dates);
                     if (dateRange) {
-                        currentCourse.sessions?.push({
+                        currentSession = {
                             classNumber,
                             section,
                             component,
-                            daysAndTimes,
-                            room,
-                            instructor,
-                            startDate: dateRange.start,
-                            endDate: dateRange.end,
-                        });
+                            meetings: [
+                                {
+                                    daysAndTimes,
+                                    room,
+                                    instructor,
+                                    startDate: dateRange.start,
+                                    endDate: dateRange.end,
+                                },
+                            ],
+                        };
+                        currentCourse.sessions?.push(currentSession);
                     } else {
-                        console.warn(
-                            `Invalid date range for session ${classNumber} in course ${currentCourse.courseCode}: ${dates}`,
+                        currentSession = null;
+                        report(
+                            "warning",
+                            "invalid-date-range",
+                            "Invalid date range, session skipped",
+                            i + 6,
+                            classNumber,
                         );
                     }
 
                     // Advance index to skip these lines
                     i += 6;
+                } else {
+                    report(
+                        "warning",
+                        "unrecognized-session-row",
+                        "Class number is not followed by a section and component, row skipped",
+                        i,
+                        classNumber,
+                    );
                 }
+            } else {
+                report(
+                    "warning",
+                    "truncated-session-row",
+                    "Input ends before this class row is complete, row skipped",
+                    i,
+                );
+            }
+            continue;
+        }
+
+        // CHECK: Continuation Row
+        // Quest leaves Class Nbr/Section/Component blank when the section above
+        // meets at another time, room or date range, so only 4 cells remain:
+        // Days & Times | Room | Instructor | Dates
+        if (
+            inSessionBlock &&
+            currentSession &&
+            meetingStartRegex.test(line) &&
+            i + 3 < lines.length
+        ) {
+            const dateRange = parseQuestDateRange(lines[i + 3]);
+            if (dateRange) {
+                currentSession.meetings.push({
+                    daysAndTimes: line,
+                    room: lines[i + 1],
+                    instructor: lines[i + 2],
+                    startDate: dateRange.start,
+                    endDate: dateRange.end,
+                });
+                i += 3;
+            } else {
+                report(
+                    "warning",
+                    "invalid-date-range",
+                    "Invalid date range, meeting skipped",
+                    i + 3,
+                    currentSession.classNumber,
+                );
             }
         }
     }
 
     // Push final course
-    if (currentCourse?.courseCode) {
-        courses.push(currentCourse as Course);
-    }
+    pushCurrentCourse();
 
     if (courses.length === 0) {
-        // Fallback or warning?
         // If we found a term but no courses, it returns empty list which is valid.
+        report(
+            "warning",
+            "no-courses",
+            "No courses found after the term line",
+            termLineIndex,
+        );
     }
 
-    return {
-        term,
-        courses,
-    };
+    return validateParseResult({ term, courses }, diagnostics);
 }
 
 export type Hour =
@@ -0,0 +1,253 @@
+import { convertIcsCalendar } from "ts-ics";
+import {
+    buildIcsCalendar,
+    buildIcsEvent,
+    generateScheduleEvents,
+    type IcsExportOptions,
+    type ScheduleEvent,
+} from "./icsExport";
+import type { ParsedSchedule } from "./schema";
+
+/**
+ * An event as it is in the user's calendar (from a previous export) or as the
+ * current schedule would export it.
+ */
+export interface EventSnapshot {
+    event: ScheduleEvent;
+    sequence: number;
+    /** Serialized values of the properties in `COMPARED_PROPERTIES` */
+    properties: Record<string, string>;
+}
+
+export type SessionChangeKind = "added" | "dropped" | "changed";
+
+export interface SessionChange {
+    kind: SessionChangeKind;
+    uid: string;
+    summary: string;
+    before?: EventSnapshot;
+    after?: EventSnapshot;
+    /** Properties that differ, only set for "changed" */
+    changedProperties: string[];
+}
+
+export interface ScheduleDiff {
+    changes: SessionChange[];
+    unchanged: number;
+}
+
+/**
+ * Properties compared between exports, in display order.
+ * DTSTAMP always changes and UID is the key, so neither is compared.
+ */
+export const COMPARED_PROPERTIES = [
+    "SUMMARY",
+    "DTSTART",
+    "DTEND",
+    "RRULE",
+    "RDATE",
+    "EXDATE",
+    "LOCATION",
+    "DESCRIPTION",
+    "CATEGORIES",
+    "COLOR",
+    "STATUS",
+] as const;
+
+/**
+ * Joins folded ICS lines back together
+ */
+export function unfoldIcs(ics: string): string {
+    return ics.replace(/\r?\n[ \t]/g, "");
+}
+
+/**
+ * Reads the compared properties of one VEVENT body. Parameters are dropped,
+ * since every exported date uses the same TZID, and repeated properties
+ * (EXDATE) are joined with commas.
+ */
+function readProperties(vevent: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    for (const line of vevent.split(/\r?\n/)) {
+        const match = line.match(/^([A-Z-]+)[;:]/);
+        if (!match) continue;
+
+        const name = match[1];
+        const valueStart = line.indexOf(":");
+        if (valueStart === -1) continue;
+        const value = line.slice(valueStart + 1);
+
+        if (name === "UID") {
+            properties.UID = value;
+        } else if (
+            (COMPARED_PROPERTIES as readonly string[]).includes(name) &&
+            value
+        ) {
+            properties[name] = properties[name]
+                ? `${properties[name]},${value}`
+                : value;
+        }
+    }
+    return properties;
+}
+
+/**
+ * Takes a snapshot of a previously exported .ics file.
+ * Cancelled events are left out, they are no longer in the calendar.
+ * @throws Error if the text is not an iCalendar file
+ */
+export function snapshotIcs(ics: string): EventSnapshot[] {
+    if (!/BEGIN:VCALENDAR/.test(ics)) {
+        throw new Error("The file is not an iCalendar (.ics) file");
+    }
+
+    const calendar = convertIcsCalendar(undefined, ics);
+    const propertiesByUid = new Map<string, Record<string, string>>();
+    for (const block of unfoldIcs(ics).split("BEGIN:VEVENT").slice(1)) {
+        const properties = readProperties(block.split("END:VEVENT")[0]);
+        if (properties.UID) propertiesByUid.set(properties.UID, properties);
+    }
+
+    return (calendar.events ?? [])
+        .filter((event) => event.status !== "CANCELLED")
+        .map((event) => {
+            const { UID: _, ...properties } =
+                propertiesByUid.get(event.uid) ?? {};
+            return {
+                event: event as ScheduleEvent,
+                sequence: event.sequence ?? 0,
+                properties,
+            };
+        });
+}
+
+/**
+ * Takes a snapshot of what the schedule would export with the given options.
+ * A schedule has no export history, so every SEQUENCE is taken as 0.
+ * Cancelled events (dropped courses) are left out, like in `snapshotIcs`.
+ */
+export function snapshotSchedule(
+    schedule: ParsedSchedule,
+    options: IcsExportOptions,
+): EventSnapshot[] {
+    const { events } = generateScheduleEvents(schedule, options);
+    return events
+        .filter((event) => event.status !== "CANCELLED")
+        .map((event) => {
+            const { UID: _, ...properties } = readProperties(
+                unfoldIcs(buildIcsEvent(event)),
+            );
+            return { event, sequence: event.sequence ?? 0, properties };
+        });
+}
+
+/**
+ * Compares two snapshots by UID.
+ * @returns Added and changed sessions in the order of `next`, then dropped ones
+ */
+export function diffSchedules(
+    previous: EventSnapshot[],
+    next: EventSnapshot[],
+): ScheduleDiff {
+    const previousByUid = new Map(previous.map((s) => [s.event.uid, s]));
+    const nextUids = new Set(next.map((s) => s.event.uid));
+    const changes: SessionChange[] = [];
+    let unchanged = 0;
+
+    for (const after of next) {
+        const before = previousByUid.get(after.event.uid);
+        if (!before) {
+            changes.push({
+                kind: "added",
+                uid: after.event.uid,
+                summary: after.event.summary,
+                after,
+                changedProperties: [],
+            });
+            continue;
+        }
+
+        const changedProperties = COMPARED_PROPERTIES.filter(
+            (name) =>
+                (before.properties[name] ?? "") !==
+                (after.properties[name] ?? ""),
+        );
+        if (changedProperties.length === 0) {
+            unchanged++;
+            continue;
+        }
+        changes.push({
+            kind: "changed",
+            uid: after.event.uid,
+            summary: after.event.summary,
+            before,
+            after,
+            changedProperties,
+        });
+    }
+
+    for (const before of previous) {
+        if (nextUids.has(before.event.uid)) continue;
+        changes.push({
+            kind: "dropped",
+            uid: before.event.uid,
+            summary: before.event.summary,
+            before,
+            changedProperties: [],
+        });
+    }
+
+    return { changes, unchanged };
+}
+
+/**
+ * Builds the files that bring a calendar from the previous snapshot to the new one.
+ *
+ * The update file holds every current event, with SEQUENCE bumped on changed
+ * ones, so it can be loaded as the previous export next time. Removed sessions
+ * go in a separate METHOD:CANCEL file, since METHOD applies to a whole calendar.
+ * @returns The update file, and the cancel file or null if nothing was dropped
+ */
+export function generateUpdateIcs(
+    diff: ScheduleDiff,
+    next: EventSnapshot[],
+    previous: EventSnapshot[],
+): { updateContent: string; cancelContent: string | null } {
+    const previousByUid = new Map(previous.map((s) => [s.event.uid, s]));
+    const changedUids = new Set(
+        diff.changes.filter((c) => c.kind === "changed").map((c) => c.uid),
+    );
+
+    const updates = next.map(({ event }) => {
+        const before = previousByUid.get(event.uid);
+        if (!before) return event;
+        return {
+            ...event,
+            sequence: changedUids.has(event.uid)
+                ? before.sequence + 1
+                : before.sequence,
+        };
+    });
+
+    const now = new Date();
+    const cancels = diff.changes.flatMap(({ kind, before }) =>
+        kind === "dropped" && before
+            ? [
+                  {
+                      ...before.event,
+                      stamp: { date: now },
+                      sequence: before.sequence + 1,
+                      status: "CANCELLED" as const,
+                  },
+              ]
+            : [],
+    );
+
+    return {
+        updateContent: buildIcsCalendar(updates, { method: "PUBLISH" }),
+        cancelContent:
+            cancels.length > 0
+                ? buildIcsCalendar(cancels, { method: "CANCEL" })
+                : null,
+    };
+}
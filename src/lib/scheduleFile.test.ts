@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { parseSchedule } from "./parser";
+import {
+    readScheduleFile,
+    SCHEDULE_FILE_FORMAT,
+    SCHEDULE_FILE_VERSION,
+    writeScheduleFile,
+} from "./scheduleFile";
+
+const schedule = parseSchedule(
+    readFileSync(
+        new URL("./__fixtures__/list-view-chrome.txt", import.meta.url),
+        "utf8",
+    ),
+).schedule;
+
+/**
+ * A saved file with its version replaced
+ */
+function withVersion(version: unknown): string {
+    const document = JSON.parse(writeScheduleFile([schedule], {}));
+    return JSON.stringify({ ...document, version });
+}
+
+describe("readScheduleFile", () => {
+    test("reads back the schedules and preferences it wrote", () => {
+        const { results, preferences } = readScheduleFile(
+            writeScheduleFile([schedule], { summaryTemplate: "@code" }),
+        );
+
+        expect(results.map((r) => r.schedule)).toEqual([schedule]);
+        expect(preferences).toEqual({ summaryTemplate: "@code" });
+    });
+
+    test("writes the current format and version", () => {
+        const document = JSON.parse(writeScheduleFile([schedule], {}));
+        expect(document.format).toBe(SCHEDULE_FILE_FORMAT);
+        expect(document.version).toBe(SCHEDULE_FILE_VERSION);
+    });
+
+    test("rejects files from a newer version", () => {
+        expect(() =>
+            readScheduleFile(withVersion(SCHEDULE_FILE_VERSION + 1)),
+        ).toThrow("saved by a newer version");
+    });
+
+    test("rejects versions below the first", () => {
+        expect(() => readScheduleFile(withVersion(0))).toThrow(
+            "unknown version (0)",
+        );
+        expect(() => readScheduleFile(withVersion(-1))).toThrow(
+            "unknown version (-1)",
+        );
+    });
+
+    test("rejects documents that are not schedule files", () => {
+        expect(() => readScheduleFile(JSON.stringify(schedule))).toThrow(
+            "not a saved schedule",
+        );
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Schedule Files
+ * Saves edited schedules and Export Options as a versioned JSON document and
+ * reads them back, migrating files written by older versions forward.
+ *
+ * Version 1:
+ * {
+ *   "format": "quest-schedule-exporter",
+ *   "version": 1,
+ *   "savedAt": "2026-01-10T15:04:05.000Z",
+ *   "schedules": [ParsedSchedule, ...], // meeting dates as "YYYY-MM-DD"
+ *   "preferences": { ...ExportPreferences } // any subset
+ * }
+ */
+
+import { z } from "zod";
+import { pickValidPreferences } from "./exportPreferences";
+import { type ParseResult, ParserError, validateParseResult } from "./parser";
+import {
+    ClassMeetingSchema,
+    ClassSessionSchema,
+    CourseSchema,
+    type ExportPreferences,
+    type ParseDiagnostic,
+    type ParsedSchedule,
+    ParsedScheduleSchema,
+} from "./schema";
+import { parseIsoDate, toDateKey } from "./termCalendar";
+
+export const SCHEDULE_FILE_FORMAT = "quest-schedule-exporter";
+export const SCHEDULE_FILE_VERSION = 1;
+
+/**
+ * Calendar days are written as "YYYY-MM-DD", so they read back as the same
+ * day in any time zone
+ */
+const CalendarDayCodec = z.codec(z.iso.date(), z.date(), {
+    decode: (text) => parseIsoDate(text) ?? new Date(Number.NaN),
+    encode: (date) => toDateKey(date),
+});
+
+const ClassMeetingFileSchema = ClassMeetingSchema.extend({
+    startDate: CalendarDayCodec,
+    endDate: CalendarDayCodec,
+});
+
+const ClassSessionFileSchema = ClassSessionSchema.extend({
+    meetings: z.array(ClassMeetingFileSchema),
+});
+
+const CourseFileSchema = CourseSchema.extend({
+    sessions: z.array(ClassSessionFileSchema),
+});
+
+/**
+ * A schedule as JSON, decoding to `ParsedSchedule`
+ */
+export const ParsedScheduleFileSchema = ParsedScheduleSchema.extend({
+    courses: z.array(CourseFileSchema),
+});
+
+/**
+ * The current version of the document, decoding to schedules with Date objects
+ */
+export const ScheduleFileSchema = z.object({
+    format: z.literal(SCHEDULE_FILE_FORMAT),
+    version: z.literal(SCHEDULE_FILE_VERSION),
+    savedAt: z.iso.datetime().optional(),
+    schedules: z.array(ParsedScheduleFileSchema).min(1),
+    // Checked setting by setting when read, like saved preferences
+    preferences: z.record(z.string(), z.unknown()).optional(),
+});
+
+type FileDocument = Record<string, unknown>;
+
+/** Version of the first schedule file format */
+const FIRST_FILE_VERSION = 1;
+
+/**
+ * Upgrades a document to the next version: `MIGRATIONS[n]` takes a version n
+ * document to version n + 1. Version 1 is the first, so there are none yet.
+ */
+const MIGRATIONS: Record<number, (document: FileDocument) => FileDocument> = {};
+
+function fileError(
+    message: string,
+    issues: ParseDiagnostic[] = [],
+): ParserError {
+    return new ParserError(message, [
+        ...issues,
+        { severity: "error", code: "invalid-schedule-file", message },
+    ]);
+}
+
+/**
+ * Version of a parsed document
+ * @returns The version, or null if the document is not a schedule file
+ */
+function getFileVersion(document: FileDocument): number | null {
+    if (document.format !== SCHEDULE_FILE_FORMAT) return null;
+    return typeof document.version === "number" ? document.version : null;
+}
+
+/**
+ * True if the text looks like a saved schedule file rather than a Quest paste
+ */
+export function isScheduleFile(text: string): boolean {
+    return /^\s*\{/.test(text);
+}
+
+/**
+ * Serializes schedules and Export Options to a schedule file
+ * @returns The JSON text, indented for people reading the file
+ */
+export function writeScheduleFile(
+    schedules: ParsedSchedule[],
+    preferences: Partial<ExportPreferences>,
+): string {
+    const document = z.encode(ScheduleFileSchema, {
+        format: SCHEDULE_FILE_FORMAT,
+        version: SCHEDULE_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        schedules,
+        preferences,
+    });
+    return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Reads a schedule file of any version, migrating it to the current one
+ * @returns One result per saved term, plus the saved Export Options that are still valid
+ * @throws ParserError if the file is not a schedule file or a schedule is invalid
+ */
+export function readScheduleFile(text: string): {
+    results: ParseResult[];
+    preferences: Partial<ExportPreferences>;
+} {
+    let document: FileDocument;
+    try {
+        document = JSON.parse(text);
+    } catch (err) {
+        throw fileError(
+            `The file is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        );
+    }
+    if (typeof document !== "object" || document === null) {
+        throw fileError("The file is not a saved schedule");
+    }
+
+    let version = getFileVersion(document);
+    if (version === null) throw fileError("The file is not a saved schedule");
+    if (version > SCHEDULE_FILE_VERSION) {
+        throw fileError(
+            `The file was saved by a newer version of the exporter (version ${version}), reload the page to update`,
+        );
+    }
+    if (!Number.isInteger(version) || version < FIRST_FILE_VERSION) {
+        throw fileError(
+            `The file has an unknown version (${version}), schedule files start at version ${FIRST_FILE_VERSION}`,
+        );
+    }
+    for (; version < SCHEDULE_FILE_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw fileError(
+                `Files saved as version ${version} can no longer be read`,
+            );
+        }
+        document = migrate(document);
+    }
+
+    // Parsing runs the codecs in the decode direction
+    const decoded = ScheduleFileSchema.safeParse(document);
+    if (!decoded.success) {
+        throw fileError(
+            "The saved schedule is invalid",
+            decoded.error.issues.map((issue) => ({
+                severity: "error",
+                code: "invalid-schedule",
+                message: `${issue.path.join(".")}: ${issue.message}`,
+            })),
+        );
+    }
+
+    return {
+        results: decoded.data.schedules.map((schedule) =>
+            validateParseResult(schedule, []),
+        ),
+        preferences: pickValidPreferences(decoded.data.preferences ?? {}),
+    };
+}
@@ -23,17 +23,39 @@ export const ComponentTypeSchema = z.enum([
 export type ComponentType = z.infer<typeof ComponentTypeSchema>;
 
 /**
- * Represents a single scheduled session for a course, including time, location, and instructor.
+ * Represents one meeting pattern of a class section: when, where and with whom it meets.
+ * @example
+ * {
+ *   daysAndTimes: "MWF 10:30AM - 11:20AM",
+ *   room: "MC 2065",
+ *   instructor: "Jane Doe",
+ *   startDate: new Date(2026, 0, 5),
+ *   endDate: new Date(2026, 3, 6)
+ * }
  */
-export const ClassSessionSchema = z.object({
-    classNumber: z.number(),
-    section: z.string(),
-    component: ComponentTypeSchema.or(z.string()), // Fallback for unknown components
+export const ClassMeetingSchema = z.object({
     daysAndTimes: z.string(),
     room: z.string(),
     instructor: z.string(),
     startDate: z.date(),
     endDate: z.date(),
+    notes: z.string().optional(), // e.g. exam seat assignment
+});
+export type ClassMeeting = z.infer<typeof ClassMeetingSchema>;
+
+/**
+ * Represents a single class section for a course (e.g. LEC 001).
+ * A section can meet at different times, rooms or date ranges, so it carries one or more meetings.
+ * Final exams imported from "My Final Exam Schedule" are marked by `exam` alone:
+ * they keep the Quest component of the class section they are for, and code
+ * that treats exams differently checks the flag, never the component.
+ */
+export const ClassSessionSchema = z.object({
+    classNumber: z.number(),
+    section: z.string(),
+    component: ComponentTypeSchema.or(z.string()), // Fallback for unknown components
+    meetings: z.array(ClassMeetingSchema),
+    exam: z.boolean().optional(), // Final exam, see above
 });
 export type ClassSession = z.infer<typeof ClassSessionSchema>;
 
@@ -56,6 +78,9 @@ export const CourseSchema = z.object({
     grading: z.string(),
     grade: z.string().optional(),
     sessions: z.array(ClassSessionSchema),
+    color: z.string().optional(), // CSS3 colour name from COURSE_COLORS, auto-assigned if unset
+    categories: z.array(z.string()).optional(), // Calendar categories, the course code if unset
+    excluded: z.boolean().optional(), // Left out of the export by the user
 });
 export type Course = z.infer<typeof CourseSchema>;
 
@@ -85,3 +110,108 @@ export const ParsedScheduleSchema = z.object({
     courses: z.array(CourseSchema),
 });
 export type ParsedSchedule = z.infer<typeof ParsedScheduleSchema>;
+
+/**
+ * The Quest "My Class Schedule" layouts we know how to parse, plus calendars
+ * exported and schedules saved earlier.
+ */
+export const ScheduleViewSchema = z.enum(["list", "weekly", "ics", "saved"]);
+export type ScheduleView = z.infer<typeof ScheduleViewSchema>;
+
+/**
+ * How serious a parse diagnostic is.
+ * "error" diagnostics mean data was lost or the parse failed, "warning" means something was skipped or guessed.
+ */
+export const DiagnosticSeveritySchema = z.enum(["error", "warning", "info"]);
+export type DiagnosticSeverity = z.infer<typeof DiagnosticSeveritySchema>;
+
+/**
+ * A problem found while parsing pasted Quest data, pointing back at the source line.
+ * @example
+ * {
+ *   severity: "warning",
+ *   code: "invalid-date-range",
+ *   message: "Invalid date range, session skipped",
+ *   line: 42,
+ *   text: "05/01/2026 - TBA",
+ *   courseCode: "CS 136",
+ *   classNumber: 5432
+ * }
+ */
+export const ParseDiagnosticSchema = z.object({
+    severity: DiagnosticSeveritySchema,
+    code: z.string(),
+    message: z.string(),
+    line: z.number().optional(), // 1-based line number in the pasted input
+    text: z.string().optional(),
+    courseCode: z.string().optional(),
+    classNumber: z.number().optional(),
+});
+export type ParseDiagnostic = z.infer<typeof ParseDiagnosticSchema>;
+
+/**
+ * Reminder time in minutes before an event, or null for no reminder.
+ */
+export const AlarmMinutesSchema = z.number().int().nonnegative().nullable();
+export type AlarmMinutes = z.infer<typeof AlarmMinutesSchema>;
+
+/**
+ * Which reminders to add to exported events.
+ * @example
+ * {
+ *   byComponent: { LEC: 15, LAB: 30, TST: 1440, OTHER: null },
+ *   exams: 2880,
+ *   byCourse: { "CS 136": null } // no reminders for CS 136 at all
+ * }
+ */
+export const AlarmSettingsSchema = z.object({
+    // Keyed by component type, "OTHER" covers components not in ComponentTypeSchema
+    byComponent: z.record(z.string(), AlarmMinutesSchema),
+    // Keyed by course code, replaces the component setting for every class of the course
+    byCourse: z.record(z.string(), AlarmMinutesSchema),
+    // Final exams, none if unset
+    exams: AlarmMinutesSchema.optional(),
+});
+export type AlarmSettings = z.infer<typeof AlarmSettingsSchema>;
+
+/**
+ * What to do with dropped courses when exporting: leave them out, or write
+ * their events as cancelled so calendars that still have them remove them.
+ */
+export const DroppedCourseExportSchema = z.enum(["skip", "cancelled"]);
+export type DroppedCourseExport = z.infer<typeof DroppedCourseExportSchema>;
+
+/**
+ * How to split an export into several calendars: not at all, one per course,
+ * one per component type, or by the user's own groups.
+ */
+export const ExportGroupingSchema = z.enum([
+    "none",
+    "course",
+    "component",
+    "custom",
+]);
+export type ExportGrouping = z.infer<typeof ExportGroupingSchema>;
+
+/**
+ * File the schedule is exported as: an iCalendar file, a spreadsheet with one
+ * row per session meeting, or one row per class in Google Calendar's CSV layout.
+ */
+export const ExportFormatSchema = z.enum(["ics", "csv", "google-csv"]);
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+/**
+ * Export Options the user chose, remembered between visits.
+ */
+export const ExportPreferencesSchema = z.object({
+    summaryTemplate: z.string(),
+    descriptionTemplate: z.string(),
+    examSummaryTemplate: z.string(),
+    skipDates: z.string(), // as typed, parsed with parseSkipDates
+    alarms: AlarmSettingsSchema,
+    droppedCourses: DroppedCourseExportSchema,
+    format: ExportFormatSchema,
+    grouping: ExportGroupingSchema,
+    customGroups: z.record(z.string(), z.string()), // "CS 136 LEC" -> group name
+});
+export type ExportPreferences = z.infer<typeof ExportPreferencesSchema>;
@@ -0,0 +1,153 @@
+import {
+    buildIcsCalendar,
+    generateScheduleEvents,
+    getScheduleFilename,
+    type IcsExportOptions,
+    type ScheduleEvent,
+} from "./icsExport";
+import type {
+    ClassSession,
+    Course,
+    ExportGrouping,
+    ParsedSchedule,
+} from "./schema";
+import { createZip } from "./zip";
+
+/**
+ * One calendar of a split export
+ */
+export interface CalendarGroup {
+    name: string;
+    filename: string;
+    icsContent: string;
+}
+
+/** Group of final exams when grouping by component */
+const EXAM_GROUP = "Final Exams";
+
+/**
+ * Key of a course's component in the custom groups, e.g. "CS 136 LEC", or
+ * "CS 136 Final Exams" for its final exam
+ */
+export function getCustomGroupKey(
+    course: Pick<Course, "courseCode">,
+    session: Pick<ClassSession, "component" | "exam">,
+): string {
+    return `${course.courseCode} ${session.exam ? EXAM_GROUP : session.component}`;
+}
+
+/**
+ * Every course component that can be put in a custom group, in schedule order
+ */
+export function listCustomGroupKeys(
+    schedule: ParsedSchedule,
+): { key: string; courseCode: string }[] {
+    const keys = new Map<string, string>();
+    for (const course of schedule.courses) {
+        for (const session of course.sessions) {
+            keys.set(getCustomGroupKey(course, session), course.courseCode);
+        }
+    }
+    return [...keys].map(([key, courseCode]) => ({ key, courseCode }));
+}
+
+/**
+ * Group a session's events go in. Components without a custom group stay
+ * with their course.
+ */
+export function getGroupName(
+    course: Course,
+    session: ClassSession,
+    grouping: Exclude<ExportGrouping, "none">,
+    customGroups: Record<string, string>,
+): string {
+    switch (grouping) {
+        case "course":
+            return course.courseCode;
+        case "component":
+            return session.exam ? EXAM_GROUP : session.component;
+        case "custom":
+            return (
+                customGroups[getCustomGroupKey(course, session)]?.trim() ||
+                course.courseCode
+            );
+    }
+}
+
+/**
+ * Slug of a group name for file names, e.g. "CS 136" -> "cs-136"
+ */
+function toFilenamePart(name: string): string {
+    return name
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "") // accents
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+}
+
+/**
+ * Generates one calendar per group, named after the group and the term
+ * @returns The calendars in order of their first event, plus export warnings and notices
+ */
+export function generateGroupedIcs(
+    schedule: ParsedSchedule,
+    options: IcsExportOptions,
+    grouping: Exclude<ExportGrouping, "none">,
+    customGroups: Record<string, string> = {},
+): { groups: CalendarGroup[]; warnings: string[]; notices: string[] } {
+    const { events, sources, warnings, notices } = generateScheduleEvents(
+        schedule,
+        options,
+    );
+
+    const eventsByGroup = new Map<string, ScheduleEvent[]>();
+    for (const event of events) {
+        const source = sources.get(event);
+        const group = source
+            ? getGroupName(
+                  source.course,
+                  source.session,
+                  grouping,
+                  customGroups,
+              )
+            : "Other";
+        const groupEvents = eventsByGroup.get(group) ?? [];
+        groupEvents.push(event);
+        eventsByGroup.set(group, groupEvents);
+    }
+
+    const termName = `${schedule.term.season} ${schedule.term.year}`;
+    const usedFilenames = new Set<string>();
+    const groups = [...eventsByGroup].map(([group, groupEvents]) => {
+        // Groups whose names only differ in punctuation would share a file name
+        const base = toFilenamePart(group) || "group";
+        let part = base;
+        for (let n = 2; usedFilenames.has(part); n++) part = `${base}-${n}`;
+        usedFilenames.add(part);
+
+        return {
+            name: group,
+            filename: getScheduleFilename(schedule.term, "ics", part),
+            icsContent: buildIcsCalendar(groupEvents, {
+                name: `${group} (${termName})`,
+            }),
+        };
+    });
+
+    return { groups, warnings, notices };
+}
+
+/**
+ * Bundles split calendars into one zip archive
+ */
+export function zipCalendarGroups(
+    groups: CalendarGroup[],
+): Uint8Array<ArrayBuffer> {
+    return createZip(
+        groups.map((group) => ({
+            name: group.filename,
+            content: group.icsContent,
+        })),
+    );
+}
@@ -0,0 +1,398 @@
+import { parseRoom, UW_BUILDINGS } from "./buildings";
+import { parseDaysAndTimes, type Time } from "./parser";
+import type {
+    ClassMeeting,
+    ClassSession,
+    Course,
+    ParsedSchedule,
+    TermInfo,
+} from "./schema";
+
+/**
+ * Summary and description templates
+ *
+ * Syntax:
+ *   @field            value of a field, e.g. "@code" -> "CS 136"
+ *   @field|filter     value passed through filters, e.g. "@location|short" -> "MC"
+ *   @{field}          same as @field, for a field directly followed by letters
+ *   [ ... ]           section, left out when a field inside it is empty
+ *   \x                the character x as is, e.g. "\[" or "\@"
+ *
+ * Field names run to the last letter, so "@codename" is an unknown field
+ * rather than "@code" followed by "name".
+ */
+
+/**
+ * What a template is rendered for: one meeting of a class
+ */
+export interface TemplateContext {
+    term: TermInfo;
+    course: Course;
+    session: ClassSession;
+    meeting: ClassMeeting;
+}
+
+interface TemplateField {
+    description: string;
+    value: (ctx: TemplateContext) => string;
+}
+
+interface TemplateFilter {
+    description: string;
+    apply: (value: string) => string;
+}
+
+/**
+ * A problem in a template, `start` and `end` index the template text
+ */
+export interface TemplateError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+type TemplateNode =
+    | { kind: "text"; value: string }
+    | { kind: "field"; field: TemplateField; filters: TemplateFilter[] }
+    | { kind: "section"; children: TemplateNode[] };
+
+export interface ParsedTemplate {
+    nodes: TemplateNode[];
+    errors: TemplateError[];
+}
+
+/**
+ * Formats a time the way Quest does, e.g. "8:30AM"
+ */
+function formatTime(time: Time): string {
+    const hour = time.hour % 12 || 12;
+    const minute = String(time.minute).padStart(2, "0");
+    return `${hour}:${minute}${time.hour < 12 ? "AM" : "PM"}`;
+}
+
+/**
+ * Meeting days in Quest's notation, e.g. "MWF" or "TTh"
+ */
+function formatDays(meeting: ClassMeeting): string {
+    const pattern = parseDaysAndTimes(meeting.daysAndTimes);
+    if (!pattern) return "";
+
+    const { days } = pattern;
+    return [
+        days.monday && "M",
+        days.tuesday && "T",
+        days.wednesday && "W",
+        days.thursday && "Th",
+        days.friday && "F",
+        days.saturday && "S",
+        days.sunday && "Su",
+    ]
+        .filter(Boolean)
+        .join("");
+}
+
+/**
+ * Building part of a room, e.g. "MC 2065" -> "MC". Rooms that are not
+ * "<building> <room>" (e.g. "Online") are returned whole, "TBA" as nothing.
+ */
+function getBuildingCode(room: string): string {
+    if (room.trim() === "TBA") return "";
+    return parseRoom(room)?.buildingCode ?? room.trim();
+}
+
+/**
+ * Short name of a building: the code for a room or a full building name
+ * from the directory, e.g. "Mathematics and Computer Building" -> "MC"
+ */
+function shortenBuildingName(value: string): string {
+    const building = UW_BUILDINGS.find((b) => b.name === value.trim());
+    return building ? building.code : getBuildingCode(value);
+}
+
+/**
+ * Instructor names without placeholders Quest uses for unassigned sections,
+ * e.g. "Jane Doe,\nTo be Announced" -> "Jane Doe"
+ */
+export function cleanInstructorName(instructor: string): string {
+    const names = instructor
+        .split(/[,\n]/)
+        .map((name) => name.replace(/\s+/g, " ").trim())
+        .filter((name) => name && !/^(to be announced|staff|tba)$/i.test(name));
+    return [...new Set(names)].join(", ");
+}
+
+export const TEMPLATE_FIELDS: Record<string, TemplateField> = {
+    code: {
+        description: "Course code",
+        value: (ctx) => ctx.course.courseCode,
+    },
+    name: {
+        description: "Course name",
+        value: (ctx) => ctx.course.courseName,
+    },
+    section: {
+        description: "Section number",
+        value: (ctx) => ctx.session.section,
+    },
+    type: {
+        description: "Component, e.g. LEC",
+        value: (ctx) => ctx.session.component,
+    },
+    classnum: {
+        description: "Class number",
+        value: (ctx) => String(ctx.session.classNumber),
+    },
+    units: {
+        description: "Units, e.g. 0.50",
+        value: (ctx) => ctx.course.units.toFixed(2),
+    },
+    status: {
+        description: "Enrolment status",
+        value: (ctx) => ctx.course.status,
+    },
+    grading: {
+        description: "Grading basis",
+        value: (ctx) => ctx.course.grading,
+    },
+    term: {
+        description: "Term, e.g. Winter 2026",
+        value: (ctx) => `${ctx.term.season} ${ctx.term.year}`,
+    },
+    days: {
+        description: "Meeting days, e.g. MWF",
+        value: (ctx) => formatDays(ctx.meeting),
+    },
+    start: {
+        description: "Start time",
+        value: (ctx) => {
+            const pattern = parseDaysAndTimes(ctx.meeting.daysAndTimes);
+            return pattern ? formatTime(pattern.startTime) : "";
+        },
+    },
+    end: {
+        description: "End time",
+        value: (ctx) => {
+            const pattern = parseDaysAndTimes(ctx.meeting.daysAndTimes);
+            return pattern ? formatTime(pattern.endTime) : "";
+        },
+    },
+    location: {
+        description: "Room, e.g. MC 2065",
+        // "TBA" counts as no room, so "[ in @location]" is left out
+        value: (ctx) =>
+            ctx.meeting.room.trim() === "TBA" ? "" : ctx.meeting.room,
+    },
+    building: {
+        description: "Building, e.g. MC",
+        value: (ctx) => getBuildingCode(ctx.meeting.room),
+    },
+    buildingname: {
+        description: "Building name, e.g. Mathematics and Computer Building",
+        value: (ctx) =>
+            parseRoom(ctx.meeting.room)?.building?.name ??
+            getBuildingCode(ctx.meeting.room),
+    },
+    prof: {
+        description: "Instructor as listed in Quest",
+        value: (ctx) => ctx.meeting.instructor,
+    },
+    instructor: {
+        description: "Instructor names, without 'To be Announced'",
+        value: (ctx) => cleanInstructorName(ctx.meeting.instructor),
+    },
+    notes: {
+        description: "Notes, e.g. exam seat",
+        value: (ctx) => ctx.meeting.notes ?? "",
+    },
+};
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+    upper: {
+        description: "UPPER CASE",
+        apply: (value) => value.toUpperCase(),
+    },
+    lower: {
+        description: "lower case",
+        apply: (value) => value.toLowerCase(),
+    },
+    short: {
+        description: "Short building name, e.g. MC 2065 -> MC",
+        apply: shortenBuildingName,
+    },
+};
+
+const FIELD_PATTERN =
+    /^@(?:\{([A-Za-z]+)((?:\|[A-Za-z]+)*)\}|([A-Za-z]+)((?:\|[A-Za-z]+)*))/;
+
+/**
+ * Parses a template. Unknown fields are reported and kept as text, unknown
+ * filters are reported and skipped, so a template always renders.
+ */
+export function parseTemplate(template: string): ParsedTemplate {
+    const errors: TemplateError[] = [];
+    const root: TemplateNode[] = [];
+    // Open sections: the nodes they were added to and the index of their "["
+    const stack: { parent: TemplateNode[]; start: number }[] = [];
+    let current = root;
+    let text = "";
+
+    const flushText = () => {
+        if (text) current.push({ kind: "text", value: text });
+        text = "";
+    };
+
+    let i = 0;
+    while (i < template.length) {
+        const char = template[i];
+        const match =
+            char === "@" ? template.slice(i).match(FIELD_PATTERN) : null;
+
+        if (match) {
+            const braced = match[1] !== undefined;
+            const rawName = match[1] ?? match[3];
+            const filterNames = (match[2] ?? match[4]).split("|").slice(1);
+            const end = i + match[0].length;
+
+            const field = TEMPLATE_FIELDS[rawName.toLowerCase()];
+            if (!field) {
+                errors.push({
+                    message: `Unknown field "@${rawName}", write "\\@" for an @ sign`,
+                    start: i,
+                    end: i + 1 + (braced ? 1 : 0) + rawName.length,
+                });
+                text += match[0];
+                i = end;
+                continue;
+            }
+
+            const filters: TemplateFilter[] = [];
+            let filterStart = i + 1 + (braced ? 1 : 0) + rawName.length;
+            for (const filterName of filterNames) {
+                const filter = TEMPLATE_FILTERS[filterName.toLowerCase()];
+                if (filter) {
+                    filters.push(filter);
+                } else {
+                    errors.push({
+                        message: `Unknown filter "${filterName}"`,
+                        start: filterStart,
+                        end: filterStart + 1 + filterName.length,
+                    });
+                }
+                filterStart += 1 + filterName.length;
+            }
+
+            flushText();
+            current.push({ kind: "field", field, filters });
+            i = end;
+        } else if (char === "\\" && i + 1 < template.length) {
+            text += template[i + 1];
+            i += 2;
+        } else if (char === "[") {
+            flushText();
+            const section: TemplateNode = { kind: "section", children: [] };
+            current.push(section);
+            stack.push({ parent: current, start: i });
+            current = section.children;
+            i++;
+        } else if (char === "]") {
+            const open = stack.pop();
+            if (open) {
+                flushText();
+                current = open.parent;
+            } else {
+                errors.push({
+                    message: 'Unmatched "]", write "\\]" for a bracket',
+                    start: i,
+                    end: i + 1,
+                });
+                text += char;
+            }
+            i++;
+        } else {
+            text += char;
+            i++;
+        }
+    }
+    flushText();
+
+    for (const open of stack) {
+        errors.push({
+            message: 'Missing "]" to close the section',
+            start: open.start,
+            end: open.start + 1,
+        });
+    }
+
+    return { nodes: root, errors };
+}
+
+/**
+ * Marks where an empty field or section was left out, so only the spaces
+ * around it are collapsed
+ */
+const GAP = "\uE000"; // Private use, never in a template or field value
+
+/**
+ * Renders nodes, noting whether a field was empty so the enclosing section
+ * can be dropped
+ */
+function renderNodes(
+    nodes: TemplateNode[],
+    ctx: TemplateContext,
+): { text: string; hasEmptyField: boolean } {
+    let text = "";
+    let hasEmptyField = false;
+
+    for (const node of nodes) {
+        if (node.kind === "text") {
+            text += node.value;
+        } else if (node.kind === "field") {
+            const value = node.filters.reduce(
+                (v, filter) => filter.apply(v),
+                node.field.value(ctx).trim(),
+            );
+            if (!value) hasEmptyField = true;
+            text += value || GAP;
+        } else {
+            const section = renderNodes(node.children, ctx);
+            text += section.hasEmptyField ? GAP : section.text;
+        }
+    }
+
+    return { text, hasEmptyField };
+}
+
+/**
+ * Renders a parsed template for one meeting. Empty fields outside a section
+ * render as nothing. The spaces on both sides of a left out field or section
+ * become one, other spacing is kept as written.
+ */
+export function renderTemplate(
+    template: ParsedTemplate,
+    ctx: TemplateContext,
+): string {
+    return renderNodes(template.nodes, ctx)
+        .text.replace(/( ?)\uE000+( ?)/g, (_, before, after) => before || after)
+        .trim();
+}
+
+/**
+ * First meeting of the schedule to preview a template with
+ * @param exam Look for a final exam instead of a class
+ * @returns The meeting, or null if the schedule has none of that kind
+ */
+export function getPreviewContext(
+    schedule: ParsedSchedule,
+    exam: boolean,
+): TemplateContext | null {
+    for (const course of schedule.courses) {
+        for (const session of course.sessions) {
+            if (Boolean(session.exam) !== exam) continue;
+            const meeting = session.meetings[0];
+            if (meeting) {
+                return { term: schedule.term, course, session, meeting };
+            }
+        }
+    }
+    return null;
+}
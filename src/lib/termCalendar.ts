@@ -0,0 +1,158 @@
+import { parseQuestDate } from "./parser";
+import type { TermInfo } from "./schema";
+
+/**
+ * A holiday or break with no classes, from the UW important dates calendar.
+ * Dates are "YYYY-MM-DD" and `end` is inclusive.
+ */
+export interface TermClosure {
+    name: string;
+    start: string;
+    end?: string;
+}
+
+/**
+ * Bundled UW term calendars, keyed by "<season> <year>" (see `getTermKey`).
+ * Only days that fall inside the class period matter, so Labour Day and other
+ * holidays outside lectures are left out.
+ */
+export const TERM_CALENDARS: Record<string, TermClosure[]> = {
+    "Winter 2024": [
+        { name: "Family Day", start: "2024-02-19" },
+        { name: "Reading Week", start: "2024-02-20", end: "2024-02-23" },
+        { name: "Good Friday", start: "2024-03-29" },
+    ],
+    "Spring 2024": [
+        { name: "Victoria Day", start: "2024-05-20" },
+        { name: "Canada Day", start: "2024-07-01" },
+    ],
+    "Fall 2024": [
+        { name: "Thanksgiving", start: "2024-10-14" },
+        { name: "Fall Reading Week", start: "2024-10-15", end: "2024-10-18" },
+    ],
+    "Winter 2025": [
+        { name: "Family Day", start: "2025-02-17" },
+        { name: "Reading Week", start: "2025-02-18", end: "2025-02-21" },
+        { name: "Good Friday", start: "2025-04-18" },
+    ],
+    "Spring 2025": [
+        { name: "Victoria Day", start: "2025-05-19" },
+        { name: "Canada Day", start: "2025-07-01" },
+    ],
+    "Fall 2025": [
+        { name: "Thanksgiving", start: "2025-10-13" },
+        { name: "Fall Reading Week", start: "2025-10-14", end: "2025-10-17" },
+    ],
+    "Winter 2026": [
+        { name: "Family Day", start: "2026-02-16" },
+        { name: "Reading Week", start: "2026-02-17", end: "2026-02-20" },
+        { name: "Good Friday", start: "2026-04-03" },
+    ],
+    "Spring 2026": [
+        { name: "Victoria Day", start: "2026-05-18" },
+        { name: "Canada Day", start: "2026-07-01" },
+    ],
+    "Fall 2026": [
+        { name: "Thanksgiving", start: "2026-10-12" },
+        { name: "Fall Reading Week", start: "2026-10-13", end: "2026-10-16" },
+    ],
+    "Winter 2027": [
+        { name: "Family Day", start: "2027-02-15" },
+        { name: "Reading Week", start: "2027-02-16", end: "2027-02-19" },
+        { name: "Good Friday", start: "2027-03-26" },
+    ],
+    "Spring 2027": [
+        { name: "Victoria Day", start: "2027-05-24" },
+        { name: "Canada Day", start: "2027-07-01" },
+    ],
+    "Fall 2027": [
+        { name: "Thanksgiving", start: "2027-10-11" },
+        { name: "Fall Reading Week", start: "2027-10-12", end: "2027-10-15" },
+    ],
+};
+
+/**
+ * A single day without classes.
+ */
+export interface SkipDate {
+    date: Date; // local midnight, like the parsed schedule dates
+    name: string;
+}
+
+/**
+ * Key into `TERM_CALENDARS`, e.g. "Winter 2026"
+ */
+export function getTermKey(term: TermInfo): string {
+    return `${term.season} ${term.year}`;
+}
+
+/**
+ * Key for comparing calendar days, e.g. "2026-02-16"
+ */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses "YYYY-MM-DD" as local midnight
+ */
+export function parseIsoDate(str: string): Date | null {
+    const match = str.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return date;
+}
+
+/**
+ * Lists every day without classes in a term, one entry per day.
+ * @returns The days, or null if no calendar is bundled for the term
+ */
+export function getTermClosures(term: TermInfo): SkipDate[] | null {
+    const closures = TERM_CALENDARS[getTermKey(term)];
+    if (!closures) return null;
+
+    const days: SkipDate[] = [];
+    for (const closure of closures) {
+        const start = parseIsoDate(closure.start);
+        const end = parseIsoDate(closure.end ?? closure.start);
+        if (!start || !end) continue;
+
+        for (const day = new Date(start); day <= end; ) {
+            days.push({ date: new Date(day), name: closure.name });
+            day.setDate(day.getDate() + 1);
+        }
+    }
+    return days;
+}
+
+/**
+ * Parses a user-supplied list of extra days to skip, separated by commas or new lines.
+ * Accepts "YYYY-MM-DD" or Quest's "DD/MM/YYYY".
+ * @returns The parsed days, plus any entries that are not dates
+ */
+export function parseSkipDates(input: string): {
+    dates: Date[];
+    invalid: string[];
+} {
+    const dates: Date[] = [];
+    const invalid: string[] = [];
+
+    for (const entry of input.split(/[,\n]/)) {
+        const text = entry.trim();
+        if (!text) continue;
+
+        const date = parseIsoDate(text) ?? parseQuestDate(text);
+        if (date) {
+            dates.push(date);
+        } else {
+            invalid.push(text);
+        }
+    }
+
+    return { dates, invalid };
+}
@@ -0,0 +1,190 @@
+import {
+    getMeetingDates,
+    getMeetingKey,
+    type MeetingRef,
+    toMinutes,
+} from "./conflicts";
+import { getCourseExportMode, isOneTimeMeeting } from "./icsExport";
+import { parseDaysAndTimes } from "./parser";
+import type { ParsedSchedule } from "./schema";
+import { getTermClosures, toDateKey } from "./termCalendar";
+
+/**
+ * A meeting drawn on one day of the weekly timetable
+ */
+export interface TimetableBlock {
+    ref: MeetingRef;
+    /** Column, 0 = Monday */
+    day: number;
+    /** Minutes since midnight */
+    start: number;
+    end: number;
+    /** Position among the blocks it overlaps, which share the column width */
+    lane: number;
+    lanes: number;
+}
+
+/**
+ * A column of the weekly timetable
+ */
+export interface TimetableDay {
+    date: Date;
+    /** Holiday or skip date on which recurring classes are not held */
+    closure?: string;
+}
+
+/**
+ * Monday of the week a date falls in
+ */
+export function getWeekStart(date: Date): Date {
+    const monday = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+    );
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    return monday;
+}
+
+/**
+ * Mondays of every week from the first class of the schedule to the last
+ */
+export function getScheduleWeeks(schedule: ParsedSchedule): Date[] {
+    const meetings = schedule.courses
+        .filter((course) => getCourseExportMode(course) !== "skip")
+        .flatMap((course) => course.sessions.flatMap((s) => s.meetings));
+    if (meetings.length === 0) return [];
+
+    const first = Math.min(...meetings.map((m) => m.startDate.getTime()));
+    const last = Math.max(...meetings.map((m) => m.endDate.getTime()));
+
+    const weeks: Date[] = [];
+    for (
+        const week = getWeekStart(new Date(first));
+        week.getTime() <= last;
+        week.setDate(week.getDate() + 7)
+    ) {
+        weeks.push(new Date(week));
+    }
+    return weeks;
+}
+
+/**
+ * Earliest start and latest end of the schedule, widened to whole hours so
+ * the grid keeps its size from week to week
+ * @returns Minutes since midnight, 8:00 to 18:00 if nothing is scheduled
+ */
+export function getTimetableHours(schedule: ParsedSchedule): {
+    start: number;
+    end: number;
+} {
+    const patterns = schedule.courses
+        .filter((course) => getCourseExportMode(course) !== "skip")
+        .flatMap((course) => course.sessions.flatMap((s) => s.meetings))
+        .flatMap((meeting) => parseDaysAndTimes(meeting.daysAndTimes) ?? []);
+    if (patterns.length === 0) return { start: 8 * 60, end: 18 * 60 };
+
+    const start = Math.min(...patterns.map((p) => toMinutes(p.startTime)));
+    const end = Math.max(...patterns.map((p) => toMinutes(p.endTime)));
+    return {
+        start: Math.floor(start / 60) * 60,
+        end: Math.ceil(end / 60) * 60,
+    };
+}
+
+/**
+ * Splits the blocks of one day into lanes, so overlapping blocks sit side by
+ * side. Blocks that overlap, directly or through others, share a lane count.
+ */
+function assignLanes(blocks: TimetableBlock[]): void {
+    const sorted = [...blocks].sort(
+        (a, b) => a.start - b.start || b.end - a.end,
+    );
+
+    let cluster: TimetableBlock[] = [];
+    let laneEnds: number[] = [];
+    const closeCluster = () => {
+        for (const block of cluster) block.lanes = laneEnds.length;
+        cluster = [];
+        laneEnds = [];
+    };
+
+    for (const block of sorted) {
+        if (cluster.length > 0 && block.start >= Math.max(...laneEnds)) {
+            closeCluster();
+        }
+        const lane = laneEnds.findIndex((end) => end <= block.start);
+        block.lane = lane === -1 ? laneEnds.length : lane;
+        laneEnds[block.lane] = block.end;
+        cluster.push(block);
+    }
+    closeCluster();
+}
+
+/**
+ * Lays out one week of the schedule. Recurring classes are left out on
+ * holidays and extra skip dates, like the export does.
+ * @param weekStart Monday of the week, see `getWeekStart`
+ */
+export function getTimetableWeek(
+    schedule: ParsedSchedule,
+    weekStart: Date,
+    skipDates: Date[] = [],
+): { days: TimetableDay[]; blocks: TimetableBlock[] } {
+    const closures = new Map<string, string>();
+    for (const { date, name } of getTermClosures(schedule.term) ?? []) {
+        closures.set(toDateKey(date), name);
+    }
+    for (const date of skipDates) {
+        if (!closures.has(toDateKey(date))) {
+            closures.set(toDateKey(date), "Skipped");
+        }
+    }
+
+    const days: TimetableDay[] = Array.from({ length: 7 }, (_, i) => {
+        const date = new Date(weekStart);
+        date.setDate(date.getDate() + i);
+        return { date, closure: closures.get(toDateKey(date)) };
+    });
+    const columns = new Map(days.map((day, i) => [toDateKey(day.date), i]));
+
+    const blocks: TimetableBlock[] = [];
+    for (const [courseIdx, course] of schedule.courses.entries()) {
+        if (getCourseExportMode(course) === "skip") continue;
+        for (const [sessionIdx, session] of course.sessions.entries()) {
+            for (const [meetingIdx, meeting] of session.meetings.entries()) {
+                const pattern = parseDaysAndTimes(meeting.daysAndTimes);
+                if (!pattern) continue;
+
+                const oneTime = isOneTimeMeeting(meeting);
+                for (const date of getMeetingDates(meeting, pattern)) {
+                    const key = toDateKey(date);
+                    const day = columns.get(key);
+                    if (day === undefined) continue;
+                    if (!oneTime && closures.has(key)) continue;
+
+                    blocks.push({
+                        ref: { courseIdx, sessionIdx, meetingIdx },
+                        day,
+                        start: toMinutes(pattern.startTime),
+                        end: toMinutes(pattern.endTime),
+                        lane: 0,
+                        lanes: 1,
+                    });
+                }
+            }
+        }
+    }
+
+    for (const day of days.keys()) {
+        assignLanes(blocks.filter((block) => block.day === day));
+    }
+    return { days, blocks };
+}
+
+/**
+ * DOM id of a meeting's row in the course table, for jumping to it from the timetable
+ */
+export function getMeetingRowId(ref: MeetingRef): string {
+    return `meeting-${getMeetingKey(ref)}`;
+}
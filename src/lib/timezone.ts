@@ -0,0 +1,154 @@
+import type { IcsDateObject, IcsTimezone } from "ts-ics";
+
+/**
+ * Every UWaterloo class meets in Waterloo, so times are always Toronto wall-clock times.
+ */
+export const SCHEDULE_TIMEZONE = "America/Toronto";
+
+/**
+ * VTIMEZONE for America/Toronto, using the North American DST rules in force since 2007.
+ * Embedded in exports so calendar apps without a tz database still resolve the TZID.
+ *
+ * ts-ics writes each `start` shifted by `offsetTo` and `byMonth` 1-based, so starts
+ * are given as the UTC instant that prints as 02:00 and months are 0-based.
+ */
+export const SCHEDULE_VTIMEZONE: IcsTimezone = {
+    id: SCHEDULE_TIMEZONE,
+    props: [
+        {
+            type: "DAYLIGHT",
+            name: "EDT",
+            start: new Date(Date.UTC(2007, 2, 11, 6, 0, 0)),
+            offsetFrom: "-0500",
+            offsetTo: "-0400",
+            recurrenceRule: {
+                frequency: "YEARLY",
+                byMonth: [2],
+                byDay: [{ day: "SU", occurrence: 2 }],
+            },
+        },
+        {
+            type: "STANDARD",
+            name: "EST",
+            start: new Date(Date.UTC(2007, 10, 4, 7, 0, 0)),
+            offsetFrom: "-0400",
+            offsetTo: "-0500",
+            recurrenceRule: {
+                frequency: "YEARLY",
+                byMonth: [10],
+                byDay: [{ day: "SU", occurrence: 1 }],
+            },
+        },
+    ],
+};
+
+const offsetFormatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: SCHEDULE_TIMEZONE,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+});
+
+/**
+ * Minutes to add to UTC to get Toronto time at the given instant (-300 or -240)
+ */
+function getOffsetMinutes(instant: Date): number {
+    const parts: Record<string, number> = {};
+    for (const part of offsetFormatter.formatToParts(instant)) {
+        if (part.type !== "literal") parts[part.type] = Number(part.value);
+    }
+    const asUtc = Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute,
+        parts.second,
+    );
+    return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+/**
+ * Formats an offset in minutes as an ICS UTC offset, e.g. -300 -> "-0500"
+ */
+function formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? "-" : "+";
+    const abs = Math.abs(minutes);
+    const hours = String(Math.floor(abs / 60)).padStart(2, "0");
+    const mins = String(abs % 60).padStart(2, "0");
+    return `${sign}${hours}${mins}`;
+}
+
+/**
+ * Builds a date-time at a Toronto wall-clock time, whatever zone the browser is in.
+ *
+ * Only the calendar day of `day` is used. Schedule dates are parsed as local
+ * midnight, so their local year/month/date are the day Quest shows.
+ * @param day Calendar day of the event
+ * @param hour Hour in Toronto (0-23)
+ * @param minute Minute in Toronto
+ * @returns The UTC instant, with `local` set so it is written as `TZID=America/Toronto`
+ */
+export function scheduleDateTime(
+    day: Date,
+    hour: number,
+    minute: number,
+): IcsDateObject {
+    // Wall-clock time with its fields stored in UTC, as ts-ics expects for `local`
+    const wallClock = new Date(
+        Date.UTC(
+            day.getFullYear(),
+            day.getMonth(),
+            day.getDate(),
+            hour,
+            minute,
+        ),
+    );
+
+    // Guess the offset from the wall-clock time, then correct it once in case
+    // the guess landed on the other side of a DST change
+    let offset = getOffsetMinutes(wallClock);
+    offset = getOffsetMinutes(new Date(wallClock.getTime() - offset * 60000));
+
+    return {
+        date: new Date(wallClock.getTime() - offset * 60000),
+        type: "DATE-TIME",
+        local: {
+            date: wallClock,
+            timezone: SCHEDULE_TIMEZONE,
+            tzoffset: formatOffset(offset),
+        },
+    };
+}
+
+/**
+ * Reads a date-time back as a Toronto wall-clock time, the inverse of `scheduleDateTime`.
+ * Times in other zones or in UTC are converted to Toronto.
+ * @returns The calendar day (local midnight, like parsed schedule dates) and the time in Toronto
+ */
+export function fromScheduleDateTime(value: IcsDateObject): {
+    day: Date;
+    hour: number;
+    minute: number;
+} {
+    const wallClock =
+        value.local?.timezone === SCHEDULE_TIMEZONE
+            ? value.local.date
+            : new Date(
+                  value.date.getTime() + getOffsetMinutes(value.date) * 60000,
+              );
+
+    return {
+        day: new Date(
+            wallClock.getUTCFullYear(),
+            wallClock.getUTCMonth(),
+            wallClock.getUTCDate(),
+        ),
+        hour: wallClock.getUTCHours(),
+        minute: wallClock.getUTCMinutes(),
+    };
+}
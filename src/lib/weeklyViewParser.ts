@@ -0,0 +1,314 @@
+import {
+    type ParseResult,
+    ParserError,
+    parseTermHeader,
+    splitSourceLines,
+    validateParseResult,
+    type WeekDays,
+} from "./parser";
+import type { Course, ParseDiagnostic, TermInfo } from "./schema";
+
+const DAY_NAMES: (keyof WeekDays)[] = [
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+];
+
+/**
+ * Day codes in the order Quest writes them in "Days & Times" (e.g. "MWF", "TTh")
+ */
+const DAY_CODES: Record<keyof WeekDays, string> = {
+    monday: "M",
+    tuesday: "T",
+    wednesday: "W",
+    thursday: "Th",
+    friday: "F",
+    saturday: "S",
+    sunday: "Su",
+};
+
+/**
+ * Spelled-out component names used by the calendar blocks
+ */
+const COMPONENT_NAMES: Record<string, string> = {
+    LECTURE: "LEC",
+    TUTORIAL: "TUT",
+    LABORATORY: "LAB",
+    LAB: "LAB",
+    WORKSHOP: "WRK",
+    SEMINAR: "SEM",
+    PROJECT: "PRJ",
+    TEST: "TST",
+};
+
+/**
+ * Approximate first/last day of classes per season. The weekly view only shows
+ * one week, so sessions get these dates until the user edits them.
+ * Month is 0-indexed.
+ */
+const SEASON_CLASS_DATES: Record<
+    string,
+    { start: [number, number]; end: [number, number] }
+> = {
+    Winter: { start: [0, 5], end: [3, 6] },
+    Spring: { start: [4, 4], end: [6, 28] },
+    Fall: { start: [8, 3], end: [11, 3] },
+};
+
+// Matches the row label at the start of every time row, e.g. "8:00AM" or "10:30 PM",
+// but not a block's own time range ("8:30AM - 9:20AM") wrapped onto its own line
+const timeLabelRegex = /^(\d{1,2}:\d{2}\s?[AP]M)(?!\s*-\s*\d{1,2}:\d{2})/i;
+// Matches a full day name in the grid header
+const dayHeaderRegex =
+    /\b(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)\b/g;
+// Matches a calendar block, e.g.
+// "CS 136 - 001 LEC (5432) 10:00AM - 11:20AM MC 2065"
+// "MATH 135 - 001 Lecture 8:30AM - 9:20AM MC 2066"
+const blockRegex =
+    /^([A-Z]{2,10}\s\d{1,4}[A-Z]?)\s*-\s*(\w{3,5})\s+([A-Za-z]{3,10})\s*(?:\((\d{4,5})\))?\s+(\d{1,2}:\d{2}\s?[AP]M)\s*-\s*(\d{1,2}:\d{2}\s?[AP]M)\s*(.*)$/i;
+
+interface CalendarBlock {
+    courseCode: string;
+    section: string;
+    component: string;
+    classNumber: number;
+    startTime: string;
+    endTime: string;
+    room: string;
+}
+
+/**
+ * Minutes since midnight for a "10:30AM" style label, or null if malformed
+ */
+function toMinutes(label: string): number | null {
+    const match = label.replace(/\s/g, "").match(/^(\d{1,2}):(\d{2})(AM|PM)$/i);
+    if (!match) return null;
+
+    let hour = Number.parseInt(match[1], 10);
+    const minute = Number.parseInt(match[2], 10);
+    const isPM = match[3].toUpperCase() === "PM";
+    if (isPM && hour !== 12) hour += 12;
+    if (!isPM && hour === 12) hour = 0;
+
+    return hour * 60 + minute;
+}
+
+function normalizeTime(label: string): string {
+    return label.replace(/\s/g, "").toUpperCase();
+}
+
+function parseBlock(cell: string): CalendarBlock | null {
+    const text = cell.replace(/\s+/g, " ").trim();
+    const match = text.match(blockRegex);
+    if (!match) return null;
+
+    const rawComponent = match[3].toUpperCase();
+    return {
+        courseCode: match[1],
+        section: match[2],
+        component: COMPONENT_NAMES[rawComponent] ?? rawComponent,
+        // 0 when the block doesn't show it, `getEventUid` then uses component and section
+        classNumber: match[4] ? Number.parseInt(match[4], 10) : 0,
+        startTime: normalizeTime(match[5]),
+        endTime: normalizeTime(match[6]),
+        room: match[7].trim() || "TBA",
+    };
+}
+
+function estimateClassDates(term: TermInfo): { start: Date; end: Date } {
+    const year = Number.parseInt(term.year, 10);
+    const season = SEASON_CLASS_DATES[term.season] ?? SEASON_CLASS_DATES.Fall;
+    return {
+        start: new Date(year, season.start[0], season.start[1]),
+        end: new Date(year, season.end[0], season.end[1]),
+    };
+}
+
+/**
+ * Returns true if the input looks like the Weekly Calendar View grid
+ * (a day-name header followed by time-labelled rows).
+ */
+export function isWeeklyCalendarView(input: string): boolean {
+    const lines = input.split("\n").map((l) => l.trim());
+    const headerDays = new Set(input.match(dayHeaderRegex) ?? []);
+    return (
+        headerDays.size >= 5 && lines.some((line) => timeLabelRegex.test(line))
+    );
+}
+
+/**
+ * Parses the raw text output from Quest "My Class Schedule" weekly calendar view.
+ *
+ * The grid is copied row by row: each row starts with its time label and the
+ * day cells follow, separated by tabs. A block spans several rows in the page
+ * (rowspan), so the columns it covers are skipped in the rows below it.
+ * @param input Raw text string from Quest
+ * @returns ParsedSchedule object with term info and courses, plus diagnostics
+ * @throws ParserError if input is invalid or structure is unrecognized
+ */
+export function parseWeeklySchedule(input: string): ParseResult {
+    // Only trim spaces: leading/trailing tabs are cell boundaries
+    const { lines, lineNumbers } = splitSourceLines(input, (l) =>
+        l.replace(/^[ \r]+|[ \r]+$/g, ""),
+    );
+    const diagnostics: ParseDiagnostic[] = [];
+
+    const { term, index: termLineIndex } = parseTermHeader(lines);
+
+    // 1. Find the grid: the header names the day columns, in page order
+    const firstRowIndex = lines.findIndex(
+        (l, i) => i > termLineIndex && timeLabelRegex.test(l),
+    );
+    if (firstRowIndex === -1) {
+        const message =
+            "Could not find any time rows in the weekly calendar (e.g., '8:00AM ...')";
+        throw new ParserError(message, [
+            { severity: "error", code: "missing-time-rows", message },
+        ]);
+    }
+
+    const headerText = lines.slice(termLineIndex + 1, firstRowIndex).join("\n");
+    const columns = [...headerText.matchAll(dayHeaderRegex)].map(
+        (m) => m[1].toLowerCase() as keyof WeekDays,
+    );
+    if (columns.length === 0) {
+        const message =
+            "Could not find the day header of the weekly calendar (e.g., 'Monday Tuesday ...')";
+        throw new ParserError(message, [
+            {
+                severity: "error",
+                code: "missing-day-header",
+                message,
+                line: lineNumbers[firstRowIndex],
+                text: lines[firstRowIndex],
+            },
+        ]);
+    }
+
+    // 2. Re-join rows whose cells wrapped onto several lines
+    const rows: { text: string; line: number }[] = [];
+    for (let i = firstRowIndex; i < lines.length; i++) {
+        if (timeLabelRegex.test(lines[i]) || rows.length === 0) {
+            rows.push({ text: lines[i], line: lineNumbers[i] });
+        } else {
+            rows[rows.length - 1].text += `\n${lines[i]}`;
+        }
+    }
+
+    // 3. Walk the rows, assigning cells to the day columns that are still free
+    const occupiedUntil: number[] = columns.map(() => -1);
+    const blocksByKey = new Map<
+        string,
+        { block: CalendarBlock; days: Set<keyof WeekDays> }
+    >();
+
+    for (const row of rows) {
+        const [label, ...cells] = row.text.split("\t");
+        const rowTime = toMinutes(label.match(timeLabelRegex)?.[1] ?? "");
+        if (rowTime === null) continue;
+
+        let cellIndex = 0;
+        for (let col = 0; col < columns.length; col++) {
+            if (occupiedUntil[col] > rowTime) continue;
+            if (cellIndex >= cells.length) break;
+
+            const cell = cells[cellIndex++];
+            const block = parseBlock(cell);
+            if (!block) {
+                if (cell.trim()) {
+                    diagnostics.push({
+                        severity: "warning",
+                        code: "unrecognized-block",
+                        message: `Could not read the ${columns[col]} block, skipped`,
+                        line: row.line,
+                        text: cell.replace(/\s+/g, " ").trim(),
+                    });
+                }
+                continue;
+            }
+
+            occupiedUntil[col] = toMinutes(block.endTime) ?? rowTime;
+
+            const key = [
+                block.courseCode,
+                block.section,
+                block.component,
+                block.startTime,
+                block.endTime,
+                block.room,
+            ].join("|");
+            const existing = blocksByKey.get(key);
+            if (existing) {
+                existing.days.add(columns[col]);
+            } else {
+                blocksByKey.set(key, { block, days: new Set([columns[col]]) });
+            }
+        }
+    }
+
+    // 4. Group blocks into courses and sections, one meeting per time/room pattern
+    const dates = estimateClassDates(term);
+    const courses: Course[] = [];
+    for (const { block, days } of blocksByKey.values()) {
+        let course = courses.find((c) => c.courseCode === block.courseCode);
+        if (!course) {
+            course = {
+                courseCode: block.courseCode,
+                courseName: "",
+                sessions: [],
+                // Defaults, the weekly view doesn't show enrollment details
+                status: "Enrolled",
+                units: 0,
+                grading: "Unknown",
+            };
+            courses.push(course);
+        }
+
+        let session = course.sessions.find(
+            (s) =>
+                s.section === block.section && s.component === block.component,
+        );
+        if (!session) {
+            session = {
+                classNumber: block.classNumber,
+                section: block.section,
+                component: block.component,
+                meetings: [],
+            };
+            course.sessions.push(session);
+        }
+
+        const dayCodes = DAY_NAMES.filter((d) => days.has(d))
+            .map((d) => DAY_CODES[d])
+            .join("");
+        session.meetings.push({
+            daysAndTimes: `${dayCodes} ${block.startTime} - ${block.endTime}`,
+            room: block.room,
+            instructor: "",
+            startDate: dates.start,
+            endDate: dates.end,
+        });
+    }
+
+    if (courses.length > 0) {
+        diagnostics.push({
+            severity: "info",
+            code: "estimated-dates",
+            message: `The weekly view has no start/end dates, assuming ${dates.start.toDateString()} - ${dates.end.toDateString()}`,
+        });
+    } else {
+        diagnostics.push({
+            severity: "warning",
+            code: "no-courses",
+            message: "No class blocks found in the weekly calendar",
+            line: lineNumbers[firstRowIndex],
+            text: lines[firstRowIndex],
+        });
+    }
+
+    return validateParseResult({ term, courses }, diagnostics);
+}
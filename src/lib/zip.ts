@@ -0,0 +1,125 @@
+/**
+ * Zip Archive
+ * Writes uncompressed (stored) zip files, enough to bundle a few calendar
+ * files into one download without a compression library
+ */
+
+export interface ZipEntry {
+    name: string;
+    content: string;
+}
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Date and time in MS-DOS format, as zip headers store them
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time:
+            (date.getHours() << 11) |
+            (date.getMinutes() << 5) |
+            Math.floor(date.getSeconds() / 2),
+        date:
+            ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+            ((date.getMonth() + 1) << 5) |
+            date.getDate(),
+    };
+}
+
+/**
+ * Builds a zip archive holding the entries, stored without compression.
+ * Names and contents are written as UTF-8.
+ */
+export function createZip(
+    entries: ZipEntry[],
+    modified = new Date(),
+): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const dos = toDosDateTime(modified);
+    const files = entries.map((entry) => {
+        const name = encoder.encode(entry.name);
+        const data = encoder.encode(entry.content);
+        return { name, data, crc: crc32(data), offset: 0 };
+    });
+
+    const localSize = files.reduce(
+        (sum, f) => sum + 30 + f.name.length + f.data.length,
+        0,
+    );
+    const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+    const zip = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(zip.buffer);
+    let position = 0;
+
+    // Fields shared by the local and central headers, from "version needed" on
+    const writeCommonFields = (file: (typeof files)[number]) => {
+        view.setUint16(position, 20, true); // version needed: 2.0
+        view.setUint16(position + 2, 0x0800, true); // flags: UTF-8 names
+        view.setUint16(position + 4, 0, true); // method: stored
+        view.setUint16(position + 6, dos.time, true);
+        view.setUint16(position + 8, dos.date, true);
+        view.setUint32(position + 10, file.crc, true);
+        view.setUint32(position + 14, file.data.length, true); // compressed size
+        view.setUint32(position + 18, file.data.length, true); // uncompressed size
+        view.setUint16(position + 22, file.name.length, true);
+        view.setUint16(position + 24, 0, true); // extra field length
+        position += 26;
+    };
+
+    for (const file of files) {
+        file.offset = position;
+        view.setUint32(position, 0x04034b50, true); // local file header
+        position += 4;
+        writeCommonFields(file);
+        zip.set(file.name, position);
+        position += file.name.length;
+        zip.set(file.data, position);
+        position += file.data.length;
+    }
+
+    const centralStart = position;
+    for (const file of files) {
+        view.setUint32(position, 0x02014b50, true); // central directory header
+        view.setUint16(position + 4, 20, true); // version made by
+        position += 6;
+        writeCommonFields(file);
+        view.setUint16(position, 0, true); // comment length
+        view.setUint16(position + 2, 0, true); // disk number
+        view.setUint16(position + 4, 0, true); // internal attributes
+        view.setUint32(position + 6, 0, true); // external attributes
+        view.setUint32(position + 10, file.offset, true);
+        position += 14;
+        zip.set(file.name, position);
+        position += file.name.length;
+    }
+
+    view.setUint32(position, 0x06054b50, true); // end of central directory
+    view.setUint16(position + 4, 0, true); // this disk
+    view.setUint16(position + 6, 0, true); // disk with the central directory
+    view.setUint16(position + 8, files.length, true);
+    view.setUint16(position + 10, files.length, true);
+    view.setUint32(position + 12, centralSize, true);
+    view.setUint32(position + 16, centralStart, true);
+    view.setUint16(position + 20, 0, true); // comment length
+
+    return zip;
+}
@@ -0,0 +1,99 @@
+import type { APIRoute } from "astro";
+import {
+    ApiError,
+    apiErrorResponse,
+    ExportRequestSchema,
+    readJsonRequest,
+} from "@/lib/api";
+import { parseAnySchedules } from "@/lib/autoParse";
+import { generateScheduleCsv } from "@/lib/csvExport";
+import { toExportOptions } from "@/lib/exportPreferences";
+import { generateScheduleIcs, getScheduleFilename } from "@/lib/icsExport";
+import type { ParsedSchedule } from "@/lib/schema";
+
+export const prerender = false;
+
+/**
+ * Messages as a JSON array for a header. Header values must be ASCII, so
+ * other characters are escaped.
+ */
+function toHeaderJson(messages: string[]): string {
+    return JSON.stringify(messages).replace(
+        /[^\x20-\x7e]/g,
+        (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`,
+    );
+}
+
+/**
+ * Exported file as a download
+ */
+function fileResponse(
+    content: string,
+    type: string,
+    filename: string,
+    messages: { warnings: string[]; notices: string[] },
+): Response {
+    return new Response(content, {
+        headers: {
+            "Content-Type": `${type}; charset=utf-8`,
+            "Content-Disposition": `attachment; filename="${filename}"`,
+            "X-Export-Warnings": toHeaderJson(messages.warnings),
+            "X-Export-Notices": toHeaderJson(messages.notices),
+        },
+    });
+}
+
+/**
+ * Exports one term as an .ics calendar or a CSV file, with its warnings and
+ * notices as JSON arrays in the X-Export-Warnings and X-Export-Notices headers
+ */
+export const POST: APIRoute = async ({ request }) => {
+    try {
+        const { schedule, input, format, options } = await readJsonRequest(
+            request,
+            ExportRequestSchema,
+        );
+
+        let target: ParsedSchedule;
+        if (schedule) {
+            target = schedule;
+        } else {
+            const results = parseAnySchedules(input ?? "");
+            if (results.length > 1) {
+                throw new ApiError(
+                    "The input has more than one term, parse it first and export the schedules one at a time",
+                    400,
+                );
+            }
+            target = results[0].schedule;
+        }
+
+        const exportOptions = toExportOptions(options);
+        if (format === "ics") {
+            const { icsContent, ...messages } = generateScheduleIcs(
+                target,
+                exportOptions,
+            );
+            return fileResponse(
+                icsContent,
+                "text/calendar",
+                getScheduleFilename(target.term),
+                messages,
+            );
+        }
+
+        const { csvContent, ...messages } = generateScheduleCsv(
+            target,
+            exportOptions,
+            format,
+        );
+        return fileResponse(
+            csvContent,
+            "text/csv",
+            getScheduleFilename(target.term, "csv"),
+            messages,
+        );
+    } catch (err) {
+        return apiErrorResponse(err);
+    }
+};
@@ -0,0 +1,70 @@
+import type { APIRoute } from "astro";
+import { apiErrorResponse } from "@/lib/api";
+import {
+    deleteFeed,
+    getEditKey,
+    getFeedStore,
+    readFeedRequest,
+    renderFeed,
+    replaceFeed,
+} from "@/lib/feed";
+
+export const prerender = false;
+
+/**
+ * The feed's calendar, generated from the stored schedule
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+    try {
+        const ics = await renderFeed(
+            getFeedStore(locals.runtime.env),
+            params.token ?? "",
+        );
+        if (ics === null) {
+            return new Response("Feed not found", { status: 404 });
+        }
+        return new Response(ics, {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Cache-Control": "private, max-age=300",
+            },
+        });
+    } catch (err) {
+        return apiErrorResponse(err);
+    }
+};
+
+/**
+ * Replaces the feed's schedule, authorized by its edit key
+ */
+export const PUT: APIRoute = async ({ params, locals, request }) => {
+    try {
+        const editKey = getEditKey(request);
+        const file = await readFeedRequest(request);
+        await replaceFeed(
+            getFeedStore(locals.runtime.env),
+            params.token ?? "",
+            editKey,
+            file,
+        );
+        return new Response(null, { status: 204 });
+    } catch (err) {
+        return apiErrorResponse(err);
+    }
+};
+
+/**
+ * Revokes the feed, authorized by its edit key
+ */
+export const DELETE: APIRoute = async ({ params, locals, request }) => {
+    try {
+        await deleteFeed(
+            getFeedStore(locals.runtime.env),
+            params.token ?? "",
+            getEditKey(request),
+        );
+        return new Response(null, { status: 204 });
+    } catch (err) {
+        return apiErrorResponse(err);
+    }
+};
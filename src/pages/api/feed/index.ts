@@ -0,0 +1,33 @@
+import type { APIRoute } from "astro";
+import { apiErrorResponse } from "@/lib/api";
+import {
+    createFeed,
+    getFeedPath,
+    getFeedStore,
+    readFeedRequest,
+} from "@/lib/feed";
+
+export const prerender = false;
+
+/**
+ * Publishes a schedule file (see `scheduleFile.ts`) as a new feed
+ */
+export const POST: APIRoute = async ({ request, locals, url }) => {
+    try {
+        const file = await readFeedRequest(request);
+        const { token, editKey } = await createFeed(
+            getFeedStore(locals.runtime.env),
+            file,
+        );
+        return Response.json(
+            {
+                token,
+                editKey,
+                url: new URL(getFeedPath(token), url).href,
+            },
+            { status: 201 },
+        );
+    } catch (err) {
+        return apiErrorResponse(err);
+    }
+};
@@ -0,0 +1,25 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+    apiErrorResponse,
+    ParseRequestSchema,
+    ParseResponseSchema,
+    readJsonRequest,
+} from "@/lib/api";
+import { parseAnySchedules } from "@/lib/autoParse";
+
+export const prerender = false;
+
+/**
+ * Parses Quest text, a saved schedule file or an .ics calendar into one
+ * schedule per term, with the parser's diagnostics
+ */
+export const POST: APIRoute = async ({ request }) => {
+    try {
+        const { input } = await readJsonRequest(request, ParseRequestSchema);
+        const results = parseAnySchedules(input);
+        return Response.json(z.encode(ParseResponseSchema, { results }));
+    } catch (err) {
+        return apiErrorResponse(err);
+    }
+};
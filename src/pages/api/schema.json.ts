@@ -0,0 +1,7 @@
+import type { APIRoute } from "astro";
+import { getApiJsonSchema } from "@/lib/api";
+
+/**
+ * JSON Schema of the API's request and response bodies, built with the site
+ */
+export const GET: APIRoute = () => Response.json(getApiJsonSchema());
@@ -3,6 +3,7 @@
 // Runtime types generated with workerd@1.20260114.0 2025-09-27 global_fetch_strictly_public,nodejs_compat
 declare namespace Cloudflare {
     interface Env {
+        SCHEDULE_FEEDS: KVNamespace;
         ASSETS: Fetcher;
     }
 }